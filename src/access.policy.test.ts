@@ -0,0 +1,159 @@
+import {
+  applyToolPolicy,
+  assertRecipientsAllowed,
+  getRequestedScopes,
+  GMAIL_READONLY_SCOPE,
+  readRecipientRules,
+  readToolPolicy,
+} from './access.policy';
+import { PolicyDeniedError } from './errors';
+import { McpTool } from './mcp.tool';
+
+function tool(name: string, readOnly = false): McpTool {
+  return {
+    definition: {
+      name,
+      description: name,
+      inputSchema: { type: 'object', properties: {} },
+      ...(readOnly && { annotations: { readOnlyHint: true } }),
+    },
+    handler: async () => ({}),
+  };
+}
+
+const tools = [
+  tool('get_unread_emails', true),
+  tool('create_draft_reply'),
+  tool('list_labels', true),
+  tool('archive_emails'),
+];
+
+function names(list: McpTool[]): string[] {
+  return list.map((t) => t.definition.name);
+}
+
+describe('readToolPolicy', () => {
+  it('reads read-only mode and the tool allowlist', () => {
+    expect(readToolPolicy({})).toEqual({ readOnly: false });
+    expect(
+      readToolPolicy({ READ_ONLY_MODE: 'true', ALLOWED_TOOLS: ' list_labels, get_unread_emails ' })
+    ).toEqual({ readOnly: true, allowedTools: ['list_labels', 'get_unread_emails'] });
+  });
+
+  it('fails on an unrecognized READ_ONLY_MODE instead of leaving the mailbox writable', () => {
+    expect(() => readToolPolicy({ READ_ONLY_MODE: 'ture' })).toThrow(
+      'READ_ONLY_MODE must be true or false, got "ture"'
+    );
+  });
+});
+
+describe('getRequestedScopes', () => {
+  it('requests only gmail.readonly in read-only mode', () => {
+    expect(getRequestedScopes(true)).toEqual([GMAIL_READONLY_SCOPE]);
+    expect(getRequestedScopes(false)).toHaveLength(3);
+  });
+});
+
+describe('applyToolPolicy', () => {
+  it('exposes every tool by default', () => {
+    expect(applyToolPolicy(tools, { readOnly: false })).toEqual(tools);
+  });
+
+  it('keeps only tools annotated read-only in read-only mode', () => {
+    expect(names(applyToolPolicy(tools, { readOnly: true }))).toEqual([
+      'get_unread_emails',
+      'list_labels',
+    ]);
+  });
+
+  it('keeps only allowlisted tools, in registration order', () => {
+    const policy = { readOnly: false, allowedTools: ['archive_emails', 'get_unread_emails'] };
+
+    expect(names(applyToolPolicy(tools, policy))).toEqual(['get_unread_emails', 'archive_emails']);
+  });
+
+  it('rejects allowlisted tools that are unknown or excluded by read-only mode', () => {
+    expect(() => applyToolPolicy(tools, { readOnly: false, allowedTools: ['send_mail'] })).toThrow(
+      /ALLOWED_TOOLS lists unknown tool "send_mail"/
+    );
+    expect(() =>
+      applyToolPolicy(tools, { readOnly: true, allowedTools: ['create_draft_reply'] })
+    ).toThrow(/"create_draft_reply", which changes the mailbox/);
+  });
+
+  it('names the setting that enables an allowlisted tool switched off by a flag', () => {
+    const policy = { readOnly: false, allowedTools: ['send_draft'] };
+
+    expect(() => applyToolPolicy(tools, policy, { send_draft: 'ENABLE_SEND_DRAFT' })).toThrow(
+      'ALLOWED_TOOLS lists "send_draft", which is disabled; set ENABLE_SEND_DRAFT=true to enable it'
+    );
+  });
+});
+
+describe('readRecipientRules', () => {
+  it('normalizes domains and blocked addresses', () => {
+    expect(
+      readRecipientRules({
+        ALLOWED_RECIPIENT_DOMAINS: 'Example.com, @partner.example, *.corp.example',
+        BLOCKED_RECIPIENTS: 'CEO@Example.com',
+      })
+    ).toEqual({
+      allowedDomains: ['example.com', 'partner.example', '*.corp.example'],
+      blockedAddresses: ['ceo@example.com'],
+    });
+    expect(readRecipientRules({})).toEqual({ allowedDomains: [], blockedAddresses: [] });
+  });
+
+  it('rejects malformed entries', () => {
+    expect(() => readRecipientRules({ ALLOWED_RECIPIENT_DOMAINS: 'example' })).toThrow(
+      /Invalid domain "example"/
+    );
+    expect(() => readRecipientRules({ BLOCKED_RECIPIENTS: 'Boss <boss@example.com>' })).toThrow(
+      /Invalid address/
+    );
+  });
+});
+
+describe('assertRecipientsAllowed', () => {
+  const rules = {
+    allowedDomains: ['example.com', '*.corp.example'],
+    blockedAddresses: ['ceo@example.com'],
+  };
+
+  it('allows recipients in the allowed domains and their listed subdomains', () => {
+    expect(() =>
+      assertRecipientsAllowed(
+        [
+          { email: 'Ann@Example.com' },
+          { email: 'bo@corp.example' },
+          { email: 'cy@eu.corp.example' },
+        ],
+        rules
+      )
+    ).not.toThrow();
+  });
+
+  it('denies blocked addresses and other domains, naming each one', () => {
+    const attempt = () =>
+      assertRecipientsAllowed(
+        [
+          { email: 'ann@example.com' },
+          { email: 'CEO@example.com' },
+          { email: 'x@sub.example.com' },
+        ],
+        rules
+      );
+
+    expect(attempt).toThrow(PolicyDeniedError);
+    expect(attempt).toThrow(/drafting to CEO@example.com, x@sub.example.com/);
+  });
+
+  it('allows any domain when no domains are listed', () => {
+    expect(() =>
+      assertRecipientsAllowed([{ email: 'a@anywhere.example' }], {
+        allowedDomains: [],
+        blockedAddresses: [],
+      })
+    ).not.toThrow();
+  });
+});
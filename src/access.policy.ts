@@ -0,0 +1,204 @@
+import { EmailAddress, parseAddressList } from './address.parser.js';
+import { PolicyDeniedError } from './errors.js';
+import { parseBooleanSetting } from './extension.loader.js';
+import { McpTool } from './mcp.tool.js';
+
+/**
+ * What the server may do with the mailbox, set by the operator:
+ *
+ * - READ_ONLY_MODE=true registers only tools annotated `readOnlyHint` (no drafts, no
+ *   label changes, no sending), and `npm run auth` then requests only gmail.readonly
+ * - ALLOWED_TOOLS limits the exposed tools to the listed names
+ * - ALLOWED_RECIPIENT_DOMAINS and BLOCKED_RECIPIENTS restrict who mail may be addressed
+ *   to; GmailService checks them before a draft reply is written and before any draft,
+ *   including one written elsewhere, is sent
+ */
+
+export const GMAIL_READONLY_SCOPE = 'https://www.googleapis.com/auth/gmail.readonly';
+
+const GMAIL_SCOPES = [
+  GMAIL_READONLY_SCOPE,
+  'https://www.googleapis.com/auth/gmail.compose',
+  'https://www.googleapis.com/auth/gmail.modify',
+];
+
+export type RecipientRules = {
+  /**
+   * Domains recipients must belong to, lowercase; empty allows any. "*.example.com"
+   * also allows subdomains.
+   */
+  allowedDomains: string[];
+  /** Addresses that are never allowed, lowercase. They win over allowedDomains. */
+  blockedAddresses: string[];
+};
+
+export type ToolPolicy = {
+  readOnly: boolean;
+  /** Tool names to expose. Undefined exposes every tool the mode allows. */
+  allowedTools?: string[];
+};
+
+type Env = Record<string, string | undefined>;
+
+const DOMAIN = /^(\*\.)?([a-z0-9-]+\.)+[a-z0-9-]+$/;
+
+function parseList(raw: string | undefined): string[] {
+  const items = (raw ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return [...new Set(items)];
+}
+
+/**
+ * Reads READ_ONLY_MODE. Unlike other flags, an unrecognized value fails rather than
+ * silently leaving the mailbox writable.
+ *
+ * @throws If READ_ONLY_MODE is set to something other than a boolean
+ */
+export function isReadOnlyMode(env: Env = process.env): boolean {
+  const raw = env.READ_ONLY_MODE;
+  if (raw === undefined || raw.trim() === '') return false;
+
+  const readOnly = parseBooleanSetting(raw);
+  if (readOnly === undefined) {
+    throw new Error(`READ_ONLY_MODE must be true or false, got "${raw}"`);
+  }
+  return readOnly;
+}
+
+/** The OAuth scopes `npm run auth` requests: gmail.readonly alone in read-only mode. */
+export function getRequestedScopes(readOnly: boolean): string[] {
+  return readOnly ? [GMAIL_READONLY_SCOPE] : [...GMAIL_SCOPES];
+}
+
+/**
+ * Reads READ_ONLY_MODE and ALLOWED_TOOLS (comma-separated tool names).
+ *
+ * @throws If READ_ONLY_MODE is invalid
+ */
+export function readToolPolicy(env: Env = process.env): ToolPolicy {
+  const allowedTools = parseList(env.ALLOWED_TOOLS);
+  return {
+    readOnly: isReadOnlyMode(env),
+    ...(allowedTools.length > 0 && { allowedTools }),
+  };
+}
+
+/**
+ * Reads ALLOWED_RECIPIENT_DOMAINS and BLOCKED_RECIPIENTS (both comma-separated).
+ *
+ * @throws If a domain or address is malformed, so a typo can't disable a rule
+ */
+export function readRecipientRules(env: Env = process.env): RecipientRules {
+  const allowedDomains = parseList(env.ALLOWED_RECIPIENT_DOMAINS).map((domain) => {
+    const normalized = domain.toLowerCase().replace(/^@/, '');
+    if (!DOMAIN.test(normalized)) {
+      throw new Error(
+        `Invalid domain "${domain}" in ALLOWED_RECIPIENT_DOMAINS: use e.g. "example.com" or "*.example.com"`
+      );
+    }
+    return normalized;
+  });
+
+  const blockedAddresses = parseList(env.BLOCKED_RECIPIENTS).map((address) => {
+    const [parsed] = parseAddressList(address);
+    if (!parsed || parsed.name) {
+      throw new Error(
+        `Invalid address "${address}" in BLOCKED_RECIPIENTS: use a bare address like "ceo@example.com"`
+      );
+    }
+    return parsed.email.toLowerCase();
+  });
+
+  return { allowedDomains, blockedAddresses };
+}
+
+/** Tools that don't change the mailbox carry the MCP `readOnlyHint` annotation. */
+export function isReadOnlyTool(tool: McpTool): boolean {
+  return tool.definition.annotations?.readOnlyHint === true;
+}
+
+/** Whether the policy exposes a tool. Unannotated tools count as mutating. */
+export function allowsTool(policy: ToolPolicy, tool: McpTool): boolean {
+  if (policy.readOnly && !isReadOnlyTool(tool)) return false;
+  return !policy.allowedTools || policy.allowedTools.includes(tool.definition.name);
+}
+
+/**
+ * Returns the tools the policy exposes, in order.
+ *
+ * @param disabledTools - Tools switched off by a feature flag, mapped to the setting that
+ *   enables them (e.g. send_draft to ENABLE_SEND_DRAFT), so the error can name it
+ * @throws If ALLOWED_TOOLS names a tool that doesn't exist, is disabled or that read-only
+ *   mode excludes, so a typo or a conflicting setting fails startup
+ */
+export function applyToolPolicy(
+  tools: McpTool[],
+  policy: ToolPolicy,
+  disabledTools: Record<string, string> = {}
+): McpTool[] {
+  const byName = new Map(tools.map((tool) => [tool.definition.name, tool]));
+  for (const name of policy.allowedTools ?? []) {
+    const tool = byName.get(name);
+    const enableEnv = Object.hasOwn(disabledTools, name) ? disabledTools[name] : undefined;
+    if (!tool && enableEnv) {
+      throw new Error(
+        `ALLOWED_TOOLS lists "${name}", which is disabled; set ${enableEnv}=true to enable it`
+      );
+    }
+    if (!tool) {
+      throw new Error(
+        `ALLOWED_TOOLS lists unknown tool "${name}". Available: ${[...byName.keys()].join(', ')}`
+      );
+    }
+    if (policy.readOnly && !isReadOnlyTool(tool)) {
+      throw new Error(
+        `ALLOWED_TOOLS lists "${name}", which changes the mailbox and READ_ONLY_MODE excludes`
+      );
+    }
+  }
+
+  return tools.filter((tool) => allowsTool(policy, tool));
+}
+
+function domainAllowed(domain: string, allowedDomains: string[]): boolean {
+  return allowedDomains.some((allowed) =>
+    allowed.startsWith('*.')
+      ? domain === allowed.slice(2) || domain.endsWith(allowed.slice(1))
+      : domain === allowed
+  );
+}
+
+/**
+ * Checks the recipients of a draft being written, or of one being sent, against the rules.
+ *
+ * @throws PolicyDeniedError naming every recipient that isn't allowed
+ */
+export function assertRecipientsAllowed(
+  recipients: EmailAddress[],
+  rules: RecipientRules,
+  action: 'draft' | 'send' = 'draft'
+): void {
+  const denied = recipients.filter(({ email }) => {
+    const address = email.toLowerCase();
+    if (rules.blockedAddresses.includes(address)) return true;
+    if (rules.allowedDomains.length === 0) return false;
+    return !domainAllowed(address.slice(address.lastIndexOf('@') + 1), rules.allowedDomains);
+  });
+  if (denied.length === 0) return;
+
+  const domains = rules.allowedDomains.length
+    ? ` Allowed domains: ${rules.allowedDomains.join(', ')}.`
+    : '';
+  const verb = action === 'send' ? 'sending' : 'drafting';
+  throw new PolicyDeniedError(
+    `The recipient policy doesn't allow ${verb} to ${denied.map((a) => a.email).join(', ')}.${domains}`,
+    {
+      remediation:
+        action === 'send'
+          ? 'The draft was not sent. Tell the user; they can change its recipients in Gmail.'
+          : 'No draft was created. Tell the user; with replyMode "all", "sender" may leave out the disallowed recipients.',
+    }
+  );
+}
@@ -0,0 +1,42 @@
+import { formatAddress, parseAddressList } from './address.parser';
+
+describe('parseAddressList', () => {
+  it('parses quoted display names containing commas', () => {
+    expect(
+      parseAddressList('"Doe, Jane" <jane@example.com>, bob@example.com, Carol <carol@example.com>')
+    ).toEqual([
+      { name: 'Doe, Jane', email: 'jane@example.com' },
+      { email: 'bob@example.com' },
+      { name: 'Carol', email: 'carol@example.com' },
+    ]);
+  });
+
+  it('handles escaped quotes, comments and groups', () => {
+    expect(
+      parseAddressList(
+        '"Jane \\"JD\\" Doe" <jane@example.com>, bob@example.com (Bob, Sales), Team: a@example.com, b@example.com;'
+      )
+    ).toEqual([
+      { name: 'Jane "JD" Doe', email: 'jane@example.com' },
+      { email: 'bob@example.com' },
+      { email: 'a@example.com' },
+      { email: 'b@example.com' },
+    ]);
+  });
+
+  it('skips empty groups and unparseable entries', () => {
+    expect(parseAddressList('undisclosed-recipients:;')).toEqual([]);
+    expect(parseAddressList('not an address, ok@example.com')).toEqual([{ email: 'ok@example.com' }]);
+    expect(parseAddressList(undefined)).toEqual([]);
+  });
+});
+
+describe('formatAddress', () => {
+  it('quotes display names with special characters', () => {
+    expect(formatAddress({ name: 'Doe, Jane', email: 'jane@example.com' })).toBe(
+      '"Doe, Jane" <jane@example.com>'
+    );
+    expect(formatAddress({ name: 'Bob', email: 'bob@example.com' })).toBe('Bob <bob@example.com>');
+    expect(formatAddress({ email: 'bob@example.com' })).toBe('bob@example.com');
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * RFC 5322 address-list parsing for From / To / Cc / Reply-To header values.
+ *
+ * Handles quoted display names containing commas ("Doe, Jane" <jane@example.com>),
+ * comments, angle-addr and bare addr-spec forms, and group syntax
+ * (undisclosed-recipients:;). Addresses that can't be parsed are skipped.
+ */
+
+export type EmailAddress = {
+  /** Display name without quotes, if any. */
+  name?: string;
+  email: string;
+};
+
+/**
+ * Splits a header value on top-level commas and group delimiters, ignoring those
+ * inside quoted strings, comments and angle brackets.
+ */
+function splitAddressList(value: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let commentDepth = 0;
+  let inAngle = false;
+
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+
+    if (inQuotes) {
+      current += ch;
+      if (ch === '\\' && i + 1 < value.length) {
+        current += value[++i];
+      } else if (ch === '"') {
+        inQuotes = false;
+      }
+      continue;
+    }
+
+    if (ch === '"') inQuotes = true;
+    else if (ch === '(') commentDepth++;
+    else if (ch === ')' && commentDepth > 0) commentDepth--;
+    else if (ch === '<' && commentDepth === 0) inAngle = true;
+    else if (ch === '>' && commentDepth === 0) inAngle = false;
+
+    const atTopLevel = commentDepth === 0 && !inAngle;
+
+    if (atTopLevel && (ch === ',' || ch === ';')) {
+      items.push(current);
+      current = '';
+    } else if (atTopLevel && ch === ':') {
+      // "Group name:" — drop the group label, keep its members.
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  items.push(current);
+
+  return items.map((s) => s.trim()).filter(Boolean);
+}
+
+function stripComments(value: string): string {
+  let out = '';
+  let depth = 0;
+  let inQuotes = false;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (inQuotes) {
+      out += ch;
+      if (ch === '\\' && i + 1 < value.length) out += value[++i];
+      else if (ch === '"') inQuotes = false;
+    } else if (ch === '"' && depth === 0) {
+      inQuotes = true;
+      out += ch;
+    } else if (ch === '(') {
+      depth++;
+    } else if (ch === ')' && depth > 0) {
+      depth--;
+    } else if (depth === 0) {
+      out += ch;
+    }
+  }
+  return out;
+}
+
+function unquote(name: string): string {
+  const trimmed = name.trim();
+  if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    return trimmed.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+  return trimmed;
+}
+
+const ADDR_SPEC = /^[^\s@<>(),;:"]+@[^\s@<>(),;:"]+$/;
+
+function parseMailbox(item: string): EmailAddress | undefined {
+  const angle = item.match(/^(.*)<([^<>]*)>\s*$/s);
+  if (angle) {
+    const email = angle[2].trim();
+    if (!ADDR_SPEC.test(email)) return undefined;
+    const name = unquote(stripComments(angle[1]).replace(/\s+/g, ' '));
+    return name ? { name, email } : { email };
+  }
+
+  const email = stripComments(item).trim();
+  return ADDR_SPEC.test(email) ? { email } : undefined;
+}
+
+/**
+ * Parses an address-list header value into addresses, in order.
+ */
+export function parseAddressList(value: string | undefined | null): EmailAddress[] {
+  if (!value) return [];
+  return splitAddressList(value)
+    .map(parseMailbox)
+    .filter((a): a is EmailAddress => a !== undefined);
+}
+
+/**
+ * Formats an address for a header, quoting the display name when it contains
+ * characters that are special in RFC 5322 (e.g. the comma in "Doe, Jane").
+ */
+export function formatAddress(address: EmailAddress): string {
+  if (!address.name) return address.email;
+  const needsQuotes = /[()<>\[\]:;@\\,."]/.test(address.name);
+  const name = needsQuotes
+    ? `"${address.name.replace(/(["\\])/g, '\\$1')}"`
+    : address.name;
+  return `${name} <${address.email}>`;
+}
+
+/**
+ * Removes duplicates (case-insensitive on the address) and any address in `exclude`,
+ * keeping the first occurrence.
+ */
+export function dedupeAddresses(
+  addresses: EmailAddress[],
+  exclude: Iterable<string> = []
+): EmailAddress[] {
+  const seen = new Set(Array.from(exclude, (e) => e.toLowerCase()));
+  const result: EmailAddress[] = [];
+  for (const address of addresses) {
+    const key = address.email.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    result.push(address);
+  }
+  return result;
+}
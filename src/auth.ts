@@ -1,138 +1,376 @@
 /**
  * OAuth2 Authorization Helper
  * 
- * This script provides the initial refresh token for Gmail API access.
- * Run (npm run auth) to authorize the app. The refresh token will be stored in .env.
+ * Authorizes Gmail accounts and manages their refresh tokens, which are kept in the
+ * token store (src/token.store.ts, .gmail-tokens.json by default) rather than in .env:
+ *
+ *   npm run auth                               Authorize the "default" account
+ *   npm run auth -- --account work             Authorize another account, named "work"
+ *   npm run auth -- status [--account work]    Show accounts, granted scopes and whether
+ *                                              their tokens still work
+ *   npm run auth -- reauth [--account work]    Authorize an existing account again
+ *   npm run auth -- revoke [--account work]    Revoke a token and remove it from the store
+ *
+ * Authorizing opens a browser and waits for its redirect to http://localhost:3000 (set
+ * another port with --port or GMAIL_OAUTH_PORT; 0 picks a free one). On a machine without
+ * a browser, e.g. over SSH, add --no-browser: open the printed URL anywhere, then paste
+ * the URL it redirects to back into the terminal.
  * 
  */
 
 import { google } from 'googleapis';
-import { createServer } from 'http';
-import { parse } from 'url';
-import { readFileSync, writeFileSync, existsSync } from 'fs';
 import open from 'open';
 import 'dotenv/config';
+import { getRequestedScopes, isReadOnlyMode } from './access.policy.js';
+import { oauthErrorCode, toToolError } from './errors.js';
+import {
+  assertValidAccountName,
+  DEFAULT_ACCOUNT,
+  GmailAccountConfig,
+  parseAccountNames,
+  readGmailAccountsConfig,
+  refreshTokenEnv,
+} from './gmail.accounts.js';
+import {
+  createAuthorizationRequest,
+  OAuthCallbackServer,
+  parseOAuthPort,
+  waitForAuthorizationCode,
+} from './oauth.flow.js';
+import { createTokenStoreFromEnv, FileTokenStore, StoredToken } from './token.store.js';
 
-const SCOPES = [
-  'https://www.googleapis.com/auth/gmail.readonly',
-  'https://www.googleapis.com/auth/gmail.compose',
-];
+const SCOPE_PREFIX = 'https://www.googleapis.com/auth/';
 
-const REDIRECT_URI = 'http://localhost:3000/oauth2callback';
+const COMMANDS = ['login', 'status', 'reauth', 'revoke'] as const;
 
-async function getRefreshToken() {
+type Command = (typeof COMMANDS)[number];
+
+type OAuth2Client = InstanceType<typeof google.auth.OAuth2>;
+
+type AuthUrlOptions = NonNullable<Parameters<OAuth2Client['generateAuthUrl']>[0]>;
+
+type FlowOptions = {
+  /** Callback port; 0 picks a free one. */
+  port: number;
+  /** false prints the URL and also accepts the redirect URL pasted into the terminal. */
+  openBrowser: boolean;
+};
+
+type AuthorizedToken = {
+  refreshToken: string;
+  /** Scopes the user granted on the consent screen. */
+  scopes?: string[];
+};
+
+/** Reads the subcommand, the first argument; plain `npm run auth` logs in. */
+function parseCommand(args: string[]): Command {
+  const [first] = args;
+  if (!first || first.startsWith('-')) return 'login';
+  if (!COMMANDS.includes(first as Command)) {
+    throw new Error(`Unknown command "${first}". Use one of: ${COMMANDS.join(', ')}`);
+  }
+  return first as Command;
+}
+
+/** Reads `--<option> <value>` (or `--<option>=<value>`) from the command line. */
+function parseOption(args: string[], option: string): string | undefined {
+  const flag = `--${option}`;
+  const index = args.findIndex((arg) => arg === flag || arg.startsWith(`${flag}=`));
+  if (index === -1) return undefined;
+
+  const arg = args[index];
+  return (arg.includes('=') ? arg.slice(arg.indexOf('=') + 1) : args[index + 1] ?? '').trim();
+}
+
+/** Reads `--account <name>` (or `--account=<name>`) from the command line. */
+function parseAccountArgument(args: string[]): string | undefined {
+  const name = parseOption(args, 'account')?.toLowerCase();
+  if (name === undefined) return undefined;
+  assertValidAccountName(name);
+  return name;
+}
+
+/** The `--account` flag to repeat in hints, empty for the default account. */
+function accountFlag(account: string): string {
+  return account === DEFAULT_ACCOUNT ? '' : ` --account ${account}`;
+}
+
+function shortScope(scope: string): string {
+  return scope.startsWith(SCOPE_PREFIX) ? scope.slice(SCOPE_PREFIX.length) : scope;
+}
+
+function createOAuth2Client(refreshToken?: string, redirectUri?: string): OAuth2Client {
   const clientId = process.env.GMAIL_CLIENT_ID;
   const clientSecret = process.env.GMAIL_CLIENT_SECRET;
 
   if (!clientId || !clientSecret) {
-    console.error('Error: GMAIL_CLIENT_ID and GMAIL_CLIENT_SECRET must be set in .env file');
-    console.error('Please follow the instructions in .env.example to set up OAuth2 credentials');
-    process.exit(1);
+    throw new Error(
+      'GMAIL_CLIENT_ID and GMAIL_CLIENT_SECRET must be set in .env file. Please follow the instructions in .env.example to set up OAuth2 credentials'
+    );
   }
 
-  const oauth2Client = new google.auth.OAuth2(
-    clientId,
-    clientSecret,
-    REDIRECT_URI
-  );
+  const oauth2Client = new google.auth.OAuth2(clientId, clientSecret, redirectUri);
+  if (refreshToken) oauth2Client.setCredentials({ refresh_token: refreshToken });
+  return oauth2Client;
+}
 
-  // Generate authorization URL
-  const authUrl = oauth2Client.generateAuthUrl({
-    access_type: 'offline',
-    scope: SCOPES,
-    prompt: 'consent', // Force consent screen to get refresh token
-  });
+/** Looks up the mailbox a token belongs to, so the user can check it's the right one. */
+async function getAccountEmail(oauth2Client: OAuth2Client): Promise<string | undefined> {
+  try {
+    const profile = await google
+      .gmail({ version: 'v1', auth: oauth2Client })
+      .users.getProfile({ userId: 'me' });
+    return profile.data.emailAddress ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
 
-  console.log('Opening browser for authorization...');
-  console.log('If the browser doesn\'t open, visit this URL:');
-  console.log(authUrl);
-  console.log('');
+/** Refresh tokens from the store, in the shape `readGmailAccountsConfig` takes. */
+function refreshTokens(stored: Record<string, StoredToken>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(stored).map(([name, token]) => [name, token.refreshToken])
+  );
+}
 
-  // Open browser
-  await open(authUrl);
-
-  // Start local server to receive callback
-  return new Promise<string>((resolve, reject) => {
-    const server = createServer(async (req, res) => {
-      try {
-        const queryParams = parse(req.url!, true).query;
-        const code = queryParams.code as string;
-
-        if (code) {
-          res.writeHead(200, { 'Content-Type': 'text/html' });
-          res.end(`
-            <html>
-              <body>
-                <h1>Authorization successful!</h1>
-                <p>You can close this window and return to the terminal.</p>
-              </body>
-            </html>
-          `);
-
-          // Exchange code for tokens
-          const { tokens } = await oauth2Client.getToken(code);
-          
-          if (!tokens.refresh_token) {
-            reject(new Error('No refresh token received. Make sure you selected "consent" and authorized all requested scopes.'));
-            return;
-          }
-
-          server.close();
-          resolve(tokens.refresh_token);
-        } else {
-          res.writeHead(400, { 'Content-Type': 'text/plain' });
-          res.end('Authorization failed. No code received.');
-          server.close();
-          reject(new Error('No authorization code received'));
-        }
-      } catch (error) {
-        server.close();
-        reject(error);
-      }
+/**
+ * Runs the authorization code flow with PKCE and a random `state`, and exchanges the code
+ * for a refresh token.
+ */
+async function getRefreshToken(flow: FlowOptions): Promise<AuthorizedToken> {
+  const callbackServer = await OAuthCallbackServer.listen(flow.port);
+  try {
+    const oauth2Client = createOAuth2Client(undefined, callbackServer.redirectUri);
+    const { state, codeVerifier, codeChallenge } = createAuthorizationRequest();
+
+    const authUrl = oauth2Client.generateAuthUrl({
+      access_type: 'offline',
+      // READ_ONLY_MODE=true asks for gmail.readonly alone
+      scope: getRequestedScopes(isReadOnlyMode()),
+      prompt: 'consent', // Force consent screen to get refresh token
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256' as AuthUrlOptions['code_challenge_method'],
     });
 
-    server.listen(3000, () => {
-      console.log('Waiting for authorization callback on http://localhost:3000/oauth2callback');
+    if (flow.openBrowser) {
+      console.log('Opening browser for authorization...');
+      console.log('If the browser doesn\'t open, visit this URL (or run again with --no-browser):');
+    } else {
+      console.log('Open this URL in a browser on any machine and authorize the app:');
+    }
+    console.log(authUrl);
+    console.log('');
+
+    if (flow.openBrowser) {
+      // A missing browser shouldn't end the flow; the URL is printed above
+      await open(authUrl).catch(() => undefined);
+      console.log(`Waiting for authorization callback on ${callbackServer.redirectUri}`);
+    } else {
+      console.log(
+        `The browser is then sent to ${callbackServer.redirectUri}. If that page doesn't load, copy the URL from the address bar.`
+      );
+    }
+
+    const code = await waitForAuthorizationCode({
+      state,
+      callbackServer,
+      ...(!flow.openBrowser && { input: process.stdin, output: process.stdout }),
     });
 
-    // Timeout after 5 minutes
-    setTimeout(() => {
-      server.close();
-      reject(new Error('Authorization timeout. Please try again.'));
-    }, 5 * 60 * 1000);
+    const { tokens } = await oauth2Client.getToken({ code, codeVerifier });
+    if (!tokens.refresh_token) {
+      throw new Error(
+        'No refresh token received. Make sure you selected "consent" and authorized all requested scopes.'
+      );
+    }
+    return {
+      refreshToken: tokens.refresh_token,
+      ...(tokens.scope && { scopes: tokens.scope.split(' ').filter(Boolean) }),
+    };
+  } finally {
+    await callbackServer.close();
+  }
+}
+
+/**
+ * Authorizes an account and saves its token in the store. `reauth` only accepts an
+ * account that is already configured, so a typo doesn't add a new one.
+ */
+async function login(
+  store: FileTokenStore,
+  account: string,
+  reauth: boolean,
+  flow: FlowOptions
+) {
+  const previous = await store.get(account);
+  if (reauth) {
+    const configured =
+      previous !== undefined ||
+      Boolean(process.env[refreshTokenEnv(account)]?.trim()) ||
+      parseAccountNames(process.env.GMAIL_ACCOUNTS).includes(account);
+    if (!configured) {
+      throw new Error(
+        `Account "${account}" is not configured. Run "npm run auth -- --account ${account}" to add it.`
+      );
+    }
+  }
+  if (account !== DEFAULT_ACCOUNT || reauth) {
+    console.log(`Authorizing Gmail account "${account}". Sign in with that Google account.`);
+  }
+
+  const { refreshToken, scopes } = await getRefreshToken(flow);
+  const emailAddress = await getAccountEmail(createOAuth2Client(refreshToken));
+
+  await store.set(account, {
+    refreshToken,
+    ...(scopes && { scopes }),
+    ...(emailAddress && { emailAddress }),
+    updatedAt: new Date().toISOString(),
   });
+
+  console.log('');
+  const label = emailAddress ? `"${account}" (${emailAddress})` : `"${account}"`;
+  const encrypted = store.encrypted ? ' (encrypted)' : '';
+  console.log(`✅ Success! Refresh token for account ${label} saved to ${store.file}${encrypted}`);
+  if (previous?.emailAddress && emailAddress && previous.emailAddress !== emailAddress) {
+    console.log(
+      `⚠️  Account "${account}" was ${previous.emailAddress} and is now ${emailAddress}.`
+    );
+  }
+  if (process.env[refreshTokenEnv(account)]?.trim()) {
+    console.log(
+      `The stored token takes precedence over ${refreshTokenEnv(account)}, which you can remove from .env.`
+    );
+  }
+  console.log(
+    reauth
+      ? 'Restart the MCP server to use the new token.'
+      : 'You can now use the MCP server with your Gmail account.'
+  );
 }
 
-async function main() {
+/**
+ * Checks that an account's token can still get an access token and has the scopes the
+ * server requests.
+ *
+ * @returns Whether the token is usable
+ */
+async function checkAccount(account: GmailAccountConfig, stored?: StoredToken) {
+  const source = stored
+    ? `token store, saved ${stored.updatedAt}`
+    : `${refreshTokenEnv(account.name)} in the environment`;
+  console.log(`  Token from: ${source}`);
+
+  const oauth2Client = createOAuth2Client(account.refreshToken);
   try {
-    const refreshToken = await getRefreshToken();
+    const { token } = await oauth2Client.getAccessToken();
+    const info = await oauth2Client.getTokenInfo(token!);
+    const emailAddress = (await getAccountEmail(oauth2Client)) ?? stored?.emailAddress;
+    const required = getRequestedScopes(isReadOnlyMode());
+    const missing = required.filter((scope) => !info.scopes.includes(scope));
 
-    // Update .env file
-    let envContent = '';
-    if (existsSync('.env')) {
-      envContent = readFileSync('.env', 'utf-8');
+    console.log(`  Mailbox:    ${emailAddress ?? 'unknown'}`);
+    console.log('  Status:     valid (a new access token was issued)');
+    console.log(`  Scopes:     ${info.scopes.map(shortScope).join(', ')}`);
+    if (missing.length > 0) {
+      console.log(
+        `  Missing:    ${missing.map(shortScope).join(', ')}. Run "npm run auth -- reauth${accountFlag(account.name)}" to grant them.`
+      );
+      return false;
     }
-
-    // Update or add GMAIL_REFRESH_TOKEN
-    const lines = envContent.split('\n');
-    let found = false;
-    const updatedLines = lines.map(line => {
-      if (line.startsWith('GMAIL_REFRESH_TOKEN=')) {
-        found = true;
-        return `GMAIL_REFRESH_TOKEN=${refreshToken}`;
-      }
-      return line;
-    });
-
-    if (!found) {
-      updatedLines.push(`GMAIL_REFRESH_TOKEN=${refreshToken}`);
+    return true;
+  } catch (error) {
+    const toolError = toToolError(error);
+    if (stored?.emailAddress) console.log(`  Mailbox:    ${stored.emailAddress}`);
+    if (toolError.code === 'AUTH_EXPIRED') {
+      console.log('  Status:     expired or revoked');
+      console.log(
+        `  Run "npm run auth -- reauth${accountFlag(account.name)}" to authorize it again.`
+      );
+    } else {
+      console.log(`  Status:     could not be checked: ${toolError.message}`);
     }
+    return false;
+  }
+}
 
-    writeFileSync('.env', updatedLines.join('\n'));
+/** Prints each account's token status. Exits with 1 when any token is unusable. */
+async function status(store: FileTokenStore, account?: string) {
+  const stored = await store.load();
+  const config = readGmailAccountsConfig(process.env, refreshTokens(stored));
+  const accounts = account
+    ? config.accounts.filter(({ name }) => name === account)
+    : config.accounts;
+  if (accounts.length === 0) {
+    throw new Error(
+      `Account "${account}" is not configured. Configured accounts: ${config.accounts.map(({ name }) => name).join(', ')}`
+    );
+  }
 
+  console.log(`Token store: ${store.file} (${store.encrypted ? 'encrypted' : 'not encrypted'})`);
+  let usable = true;
+  for (const entry of accounts) {
     console.log('');
-    console.log('✅ Success! Refresh token saved to .env file');
-    console.log('You can now use the MCP server with your Gmail account.');
+    const marker = entry.name === config.defaultAccount ? ' (default)' : '';
+    console.log(`${entry.name}${marker}`);
+    if (!(await checkAccount(entry, stored[entry.name]))) usable = false;
+  }
+  if (!usable) process.exitCode = 1;
+}
+
+/**
+ * Revokes an account's token at Google and removes it from the store. Google revokes
+ * the whole grant, so other copies of the token stop working too.
+ */
+async function revoke(store: FileTokenStore, account: string) {
+  const stored = await store.get(account);
+  const envName = refreshTokenEnv(account);
+  const envToken = process.env[envName]?.trim();
+  const refreshToken = stored?.refreshToken ?? envToken;
+  if (!refreshToken) {
+    throw new Error(`Account "${account}" has no refresh token in the token store or ${envName}`);
+  }
+
+  try {
+    await createOAuth2Client().revokeToken(refreshToken);
+    console.log(`Revoked the refresh token for account "${account}".`);
+  } catch (error) {
+    // Google answers invalid_token when the token was already revoked or has expired
+    if (oauthErrorCode(error) !== 'invalid_token') throw error;
+    console.log(`The refresh token for account "${account}" was already revoked or expired.`);
+  }
+
+  if (stored && (await store.delete(account))) {
+    console.log(`Removed account "${account}" from ${store.file}.`);
+  }
+  if (envToken) {
+    console.log(`Remove ${envName} from .env as well; the server still reads it.`);
+  }
+}
+
+async function main() {
+  try {
+    const args = process.argv.slice(2);
+    const command = parseCommand(args);
+    const account = parseAccountArgument(args);
+    const store = createTokenStoreFromEnv();
+
+    switch (command) {
+      case 'login':
+      case 'reauth':
+        await login(store, account ?? DEFAULT_ACCOUNT, command === 'reauth', {
+          port: parseOAuthPort(parseOption(args, 'port')),
+          openBrowser: !args.includes('--no-browser'),
+        });
+        break;
+      case 'status':
+        await status(store, account);
+        break;
+      case 'revoke':
+        await revoke(store, account ?? DEFAULT_ACCOUNT);
+        break;
+    }
   } catch (error) {
     console.error('Error:', error instanceof Error ? error.message : error);
     process.exit(1);
@@ -140,4 +378,3 @@ async function main() {
 }
 
 main();
-
@@ -0,0 +1,101 @@
+import { mkdtempSync, mkdirSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { guessMimeType, resolveDraftAttachments } from './draft.attachments';
+
+describe('resolveDraftAttachments', () => {
+  let root: string;
+  let allowedDir: string;
+  let outsideDir: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'draft-attachments-'));
+    allowedDir = join(root, 'allowed');
+    outsideDir = join(root, 'outside');
+    mkdirSync(allowedDir);
+    mkdirSync(outsideDir);
+    writeFileSync(join(allowedDir, 'report.pdf'), 'PDF');
+    writeFileSync(join(outsideDir, 'secret.txt'), 'secret');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reads files from an allowlisted directory', async () => {
+    const [attachment] = await resolveDraftAttachments(
+      [{ path: join(allowedDir, 'report.pdf') }],
+      { allowedDirs: [allowedDir] }
+    );
+
+    expect(attachment).toEqual({
+      filename: 'report.pdf',
+      mimeType: 'application/pdf',
+      content: Buffer.from('PDF'),
+    });
+  });
+
+  it('reads allowlisted files whose names start with two dots', async () => {
+    writeFileSync(join(allowedDir, '..notes.txt'), 'notes');
+
+    const [attachment] = await resolveDraftAttachments(
+      [{ path: join(allowedDir, '..notes.txt') }],
+      { allowedDirs: [allowedDir] }
+    );
+
+    expect(attachment.content).toEqual(Buffer.from('notes'));
+  });
+
+  it('rejects paths outside the allowlist, including via traversal and symlinks', async () => {
+    await expect(
+      resolveDraftAttachments([{ path: join(outsideDir, 'secret.txt') }], {
+        allowedDirs: [allowedDir],
+      })
+    ).rejects.toThrow(/outside the allowed directories/);
+
+    await expect(
+      resolveDraftAttachments([{ path: join(allowedDir, '..', 'outside', 'secret.txt') }], {
+        allowedDirs: [allowedDir],
+      })
+    ).rejects.toThrow(/outside the allowed directories/);
+
+    symlinkSync(join(outsideDir, 'secret.txt'), join(allowedDir, 'link.txt'));
+    await expect(
+      resolveDraftAttachments([{ path: join(allowedDir, 'link.txt') }], {
+        allowedDirs: [allowedDir],
+      })
+    ).rejects.toThrow(/outside the allowed directories/);
+  });
+
+  it('rejects file paths when no directory is allowlisted', async () => {
+    await expect(
+      resolveDraftAttachments([{ path: join(allowedDir, 'report.pdf') }], { allowedDirs: [] })
+    ).rejects.toThrow(/DRAFT_ATTACHMENT_DIRS/);
+  });
+
+  it('decodes base64 content and requires a filename', async () => {
+    const [attachment] = await resolveDraftAttachments(
+      [{ content: Buffer.from('a,b\n').toString('base64'), filename: 'data.csv' }],
+      { allowedDirs: [] }
+    );
+    expect(attachment).toEqual({
+      filename: 'data.csv',
+      mimeType: 'text/csv',
+      content: Buffer.from('a,b\n'),
+    });
+
+    await expect(
+      resolveDraftAttachments([{ content: 'YWJj' }], { allowedDirs: [] })
+    ).rejects.toThrow(/filename is required/);
+    await expect(
+      resolveDraftAttachments([{ content: 'not base64!', filename: 'x.bin' }], { allowedDirs: [] })
+    ).rejects.toThrow(/not valid base64/);
+  });
+});
+
+describe('guessMimeType', () => {
+  it('falls back to application/octet-stream', () => {
+    expect(guessMimeType('notes.TXT')).toBe('text/plain');
+    expect(guessMimeType('archive.unknown')).toBe('application/octet-stream');
+  });
+});
@@ -0,0 +1,148 @@
+import { readFile, realpath, stat } from 'fs/promises';
+import { basename, delimiter, extname, isAbsolute, relative, resolve, sep } from 'path';
+import { ValidationError } from './errors.js';
+import { MimeAttachment } from './message.builder.js';
+
+/**
+ * Resolves the `attachments` argument of create_draft_reply into file contents.
+ *
+ * An attachment is either a local file path, which must live inside one of the
+ * directories listed in DRAFT_ATTACHMENT_DIRS, or inline base64 content with a filename.
+ */
+
+export type DraftAttachmentInput = {
+  /** Local file path. Must be inside an allowlisted directory. */
+  path?: string;
+  /** Base64-encoded file content. Requires `filename`. */
+  content?: string;
+  /** Filename shown to the recipient. Defaults to the basename of `path`. */
+  filename?: string;
+  /** Defaults to a guess based on the filename extension. */
+  mimeType?: string;
+};
+
+/** Gmail rejects messages over 25 MB; leave headroom for base64 and the body. */
+export const MAX_TOTAL_ATTACHMENT_BYTES = 18 * 1024 * 1024;
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.csv': 'text/csv',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.html': 'text/html',
+  '.json': 'application/json',
+  '.ics': 'text/calendar',
+  '.eml': 'message/rfc822',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.zip': 'application/zip',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+export function guessMimeType(filename: string): string {
+  return MIME_TYPES_BY_EXTENSION[extname(filename).toLowerCase()] ?? 'application/octet-stream';
+}
+
+/**
+ * Reads the allowlisted attachment directories from DRAFT_ATTACHMENT_DIRS
+ * (separated like PATH: ':' on Linux/macOS, ';' on Windows).
+ */
+export function getAllowedAttachmentDirs(): string[] {
+  const raw = process.env.DRAFT_ATTACHMENT_DIRS;
+  if (!raw) return [];
+  return raw
+    .split(delimiter)
+    .map((d) => d.trim())
+    .filter(Boolean);
+}
+
+function isInside(dir: string, file: string): boolean {
+  const rel = relative(dir, file);
+  // "..notes.txt" is a file inside dir; only ".." itself or a "../" prefix leaves it
+  return rel !== '' && rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+}
+
+async function resolveAllowedPath(path: string, allowedDirs: string[]): Promise<string> {
+  if (allowedDirs.length === 0) {
+    throw new ValidationError(
+      'File path attachments are disabled. Set DRAFT_ATTACHMENT_DIRS to allow attaching files from specific directories, or pass base64 content instead.'
+    );
+  }
+
+  // Resolve symlinks on both sides so a link inside the allowlist can't point outside it.
+  const target = await realpath(resolve(path)).catch(() => {
+    throw new ValidationError(`Attachment file not found: ${path}`);
+  });
+  for (const dir of allowedDirs) {
+    const allowed = await realpath(resolve(dir)).catch(() => undefined);
+    if (allowed && isInside(allowed, target)) return target;
+  }
+
+  throw new ValidationError(`Attachment path is outside the allowed directories: ${path}`);
+}
+
+function decodeBase64Content(content: string, filename: string): Buffer {
+  const normalized = content.replace(/\s+/g, '').replace(/-/g, '+').replace(/_/g, '/');
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(normalized)) {
+    throw new ValidationError(`Attachment content for "${filename}" is not valid base64`);
+  }
+  return Buffer.from(normalized, 'base64');
+}
+
+/**
+ * Validates and loads draft attachments.
+ */
+export async function resolveDraftAttachments(
+  inputs: DraftAttachmentInput[],
+  options?: { allowedDirs?: string[] }
+): Promise<MimeAttachment[]> {
+  const allowedDirs = options?.allowedDirs ?? getAllowedAttachmentDirs();
+  const attachments: MimeAttachment[] = [];
+  let totalBytes = 0;
+
+  for (const input of inputs) {
+    let attachment: MimeAttachment;
+
+    if (input.path && input.content) {
+      throw new ValidationError('Each attachment needs either path or content, not both');
+    } else if (input.path) {
+      const file = await resolveAllowedPath(input.path, allowedDirs);
+      if (!(await stat(file)).isFile()) {
+        throw new ValidationError(`Attachment path is not a file: ${input.path}`);
+      }
+      const filename = input.filename || basename(file);
+      attachment = {
+        filename,
+        mimeType: input.mimeType || guessMimeType(filename),
+        content: await readFile(file),
+      };
+    } else if (input.content) {
+      if (!input.filename) {
+        throw new ValidationError('filename is required for base64 attachment content');
+      }
+      attachment = {
+        filename: input.filename,
+        mimeType: input.mimeType || guessMimeType(input.filename),
+        content: decodeBase64Content(input.content, input.filename),
+      };
+    } else {
+      throw new ValidationError('Each attachment needs either path or content');
+    }
+
+    totalBytes += attachment.content.length;
+    if (totalBytes > MAX_TOTAL_ATTACHMENT_BYTES) {
+      throw new ValidationError(
+        `Attachments exceed the ${MAX_TOTAL_ATTACHMENT_BYTES} byte limit for a Gmail draft`
+      );
+    }
+    attachments.push(attachment);
+  }
+
+  return attachments;
+}
@@ -0,0 +1,109 @@
+import {
+  AuthExpiredError,
+  InsufficientScopeError,
+  NotFoundError,
+  RateLimitedError,
+  toToolError,
+  ToolError,
+  UpstreamUnavailableError,
+  ValidationError,
+} from './errors';
+
+/** Shaped like the GaxiosErrors googleapis rejects with. */
+function gaxiosError(
+  status: number,
+  message: string,
+  options?: { reason?: string; data?: unknown; retryAfter?: string }
+) {
+  return Object.assign(new Error(message), {
+    code: status,
+    errors: options?.reason ? [{ reason: options.reason, message }] : undefined,
+    response: {
+      status,
+      data: options?.data,
+      headers: options?.retryAfter ? { 'Retry-After': options.retryAfter } : {},
+    },
+  });
+}
+
+describe('toToolError', () => {
+  it('maps an expired or revoked refresh token to AUTH_EXPIRED', () => {
+    const error = toToolError(
+      gaxiosError(400, 'invalid_grant', {
+        data: { error: 'invalid_grant', error_description: 'Token has been expired or revoked.' },
+      })
+    );
+
+    expect(error).toBeInstanceOf(AuthExpiredError);
+    expect(error.toPayload()).toMatchObject({
+      code: 'AUTH_EXPIRED',
+      retryable: false,
+      remediation: expect.stringMatching(/npm run auth/),
+    });
+  });
+
+  it('maps 401 to AUTH_EXPIRED', () => {
+    expect(toToolError(gaxiosError(401, 'Invalid Credentials')).code).toBe('AUTH_EXPIRED');
+  });
+
+  it('maps a missing scope to INSUFFICIENT_SCOPE', () => {
+    const error = toToolError(
+      gaxiosError(403, 'Request had insufficient authentication scopes.', {
+        reason: 'insufficientPermissions',
+      })
+    );
+
+    expect(error).toBeInstanceOf(InsufficientScopeError);
+    expect(error.retryable).toBe(false);
+  });
+
+  it.each([
+    [gaxiosError(429, 'Too many requests', { retryAfter: '7' })],
+    [gaxiosError(403, 'User-rate limit exceeded', { reason: 'userRateLimitExceeded' })],
+  ])('maps rate limits to a retryable RATE_LIMITED (%s)', (upstream) => {
+    const error = toToolError(upstream);
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('passes the Retry-After delay on', () => {
+    const upstream = gaxiosError(429, 'Too many requests', { retryAfter: '7' });
+
+    expect(toToolError(upstream).toPayload().retryAfterMs).toBe(7000);
+  });
+
+  it('maps 404 to NOT_FOUND and 400 to VALIDATION', () => {
+    expect(toToolError(gaxiosError(404, 'Requested entity was not found.'))).toBeInstanceOf(
+      NotFoundError
+    );
+    expect(toToolError(gaxiosError(400, 'Invalid id value'))).toBeInstanceOf(ValidationError);
+  });
+
+  it.each([
+    [gaxiosError(503, 'Backend Error')],
+    [Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })],
+  ])('maps server and network failures to UPSTREAM_UNAVAILABLE (%s)', (upstream) => {
+    const error = toToolError(upstream);
+
+    expect(error).toBeInstanceOf(UpstreamUnavailableError);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('keeps ToolErrors and wraps anything else as INTERNAL', () => {
+    const validation = new ValidationError('No label changes given');
+    expect(toToolError(validation)).toBe(validation);
+
+    const internal = toToolError(new Error('boom'));
+    expect(internal).toBeInstanceOf(ToolError);
+    expect(internal.toPayload()).toEqual({ error: 'boom', code: 'INTERNAL', retryable: false });
+  });
+
+  it('includes argument errors in VALIDATION payloads', () => {
+    const validationErrors = [{ field: 'emailId', message: 'is required' }];
+
+    expect(
+      new ValidationError('Invalid arguments for get_email', { validationErrors }).toPayload()
+    ).toMatchObject({ code: 'VALIDATION', validationErrors });
+  });
+});
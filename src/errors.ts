@@ -0,0 +1,230 @@
+import {
+  errorStatus,
+  getRetryAfterMs,
+  isRateLimitError,
+  isRetryableError,
+} from './request.queue.js';
+import { ArgumentError } from './tool.arguments.js';
+
+/**
+ * Error classes with stable codes, so the assistant can tell an expired login from a
+ * missing message, a rate limit or a bad argument, and knows whether retrying helps.
+ *
+ * Tool handlers may throw these directly; anything else (googleapis / Gaxios errors,
+ * plain Errors) is mapped by `toToolError` in the tools/call handler.
+ */
+
+export type ToolErrorCode =
+  | 'AUTH_EXPIRED'
+  | 'INSUFFICIENT_SCOPE'
+  | 'NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'VALIDATION'
+  | 'POLICY_DENIED'
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'INTERNAL';
+
+export type ToolErrorOptions = {
+  /** Whether the same call may succeed if repeated later. */
+  retryable?: boolean;
+  /** What the user or assistant can do about it, e.g. "Run npm run auth". */
+  remediation?: string;
+  cause?: unknown;
+};
+
+/** The error fields of a failed tools/call result. */
+export type ToolErrorPayload = {
+  error: string;
+  code: ToolErrorCode;
+  retryable: boolean;
+  remediation?: string;
+  retryAfterMs?: number;
+  validationErrors?: ArgumentError[];
+};
+
+const REAUTH_HINT =
+  'Run "npm run auth -- reauth" (add --account <name> for a named account), then restart the server.';
+
+export class ToolError extends Error {
+  readonly code: ToolErrorCode;
+  readonly retryable: boolean;
+  readonly remediation?: string;
+
+  constructor(code: ToolErrorCode, message: string, options?: ToolErrorOptions) {
+    super(message, options?.cause === undefined ? undefined : { cause: options.cause });
+    this.name = 'ToolError';
+    this.code = code;
+    this.retryable = options?.retryable ?? false;
+    this.remediation = options?.remediation;
+  }
+
+  toPayload(): ToolErrorPayload {
+    return {
+      error: this.message,
+      code: this.code,
+      retryable: this.retryable,
+      ...(this.remediation && { remediation: this.remediation }),
+    };
+  }
+}
+
+/** The credentials were rejected: the refresh token expired or was revoked, or a key is invalid. */
+export class AuthExpiredError extends ToolError {
+  constructor(message: string, options?: ToolErrorOptions) {
+    super('AUTH_EXPIRED', message, { remediation: REAUTH_HINT, ...options });
+    this.name = 'AuthExpiredError';
+  }
+}
+
+/** The authorization lacks a scope the call needs (granted before the scope was added). */
+export class InsufficientScopeError extends ToolError {
+  constructor(message: string, options?: ToolErrorOptions) {
+    super('INSUFFICIENT_SCOPE', message, { remediation: REAUTH_HINT, ...options });
+    this.name = 'InsufficientScopeError';
+  }
+}
+
+export class NotFoundError extends ToolError {
+  constructor(message: string, options?: ToolErrorOptions) {
+    super('NOT_FOUND', message, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class RateLimitedError extends ToolError {
+  /** How long the upstream asked us to wait, when it said. */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options?: ToolErrorOptions & { retryAfterMs?: number }) {
+    super('RATE_LIMITED', message, {
+      retryable: true,
+      remediation: 'Wait a minute before trying again, and fetch fewer emails per call.',
+      ...options,
+    });
+    this.name = 'RateLimitedError';
+    this.retryAfterMs = options?.retryAfterMs;
+  }
+
+  toPayload(): ToolErrorPayload {
+    return {
+      ...super.toPayload(),
+      ...(this.retryAfterMs !== undefined && { retryAfterMs: this.retryAfterMs }),
+    };
+  }
+}
+
+/** The arguments (or the request they describe) can't be carried out as given. */
+export class ValidationError extends ToolError {
+  readonly validationErrors?: ArgumentError[];
+
+  constructor(
+    message: string,
+    options?: ToolErrorOptions & { validationErrors?: ArgumentError[] }
+  ) {
+    super('VALIDATION', message, {
+      remediation: 'Fix the arguments and call the tool again.',
+      ...options,
+    });
+    this.name = 'ValidationError';
+    this.validationErrors = options?.validationErrors;
+  }
+
+  toPayload(): ToolErrorPayload {
+    return {
+      ...super.toPayload(),
+      ...(this.validationErrors && { validationErrors: this.validationErrors }),
+    };
+  }
+}
+
+/** The server's policy (src/access.policy.ts) forbids the call, whatever its arguments. */
+export class PolicyDeniedError extends ToolError {
+  constructor(message: string, options?: ToolErrorOptions) {
+    super('POLICY_DENIED', message, {
+      remediation:
+        'Do not retry. Tell the user; only the server operator can change the policy.',
+      ...options,
+    });
+    this.name = 'PolicyDeniedError';
+  }
+}
+
+/** The upstream service failed or couldn't be reached. Usually temporary. */
+export class UpstreamUnavailableError extends ToolError {
+  constructor(message: string, options?: ToolErrorOptions) {
+    super('UPSTREAM_UNAVAILABLE', message, {
+      retryable: true,
+      remediation: 'Try again in a few minutes.',
+      ...options,
+    });
+    this.name = 'UpstreamUnavailableError';
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** OAuth error code from a token refresh or revocation failure, e.g. "invalid_grant". */
+export function oauthErrorCode(error: unknown): string | undefined {
+  const data = (error as { response?: { data?: unknown } } | null)?.response?.data;
+  const code = (data as { error?: unknown } | null | undefined)?.error;
+  return typeof code === 'string' ? code : undefined;
+}
+
+/**
+ * Gmail answers 403 "Request had insufficient authentication scopes" when the refresh
+ * token was granted before a scope was added to `npm run auth`.
+ */
+export function isInsufficientScopeError(error: unknown): boolean {
+  return (
+    errorStatus(error) === 403 &&
+    /insufficient authentication scopes|ACCESS_TOKEN_SCOPE_INSUFFICIENT/i.test(errorMessage(error))
+  );
+}
+
+/**
+ * Maps a failure onto a ToolError. ToolErrors pass through unchanged; googleapis
+ * (Gaxios) errors are classified by OAuth error, HTTP status and reason; anything
+ * else becomes INTERNAL.
+ */
+export function toToolError(error: unknown): ToolError {
+  if (error instanceof ToolError) return error;
+
+  const message = errorMessage(error);
+  const status = errorStatus(error);
+  const options = { cause: error };
+
+  if (oauthErrorCode(error) === 'invalid_grant' || /\binvalid_grant\b/.test(message)) {
+    return new AuthExpiredError(
+      'The Gmail refresh token has expired or been revoked (invalid_grant).',
+      options
+    );
+  }
+  if (status === 401) {
+    return new AuthExpiredError(`Gmail rejected the credentials: ${message}`, options);
+  }
+  if (isInsufficientScopeError(error)) {
+    return new InsufficientScopeError(
+      `The Gmail authorization is missing a scope this call needs: ${message}`,
+      options
+    );
+  }
+  if (isRateLimitError(error)) {
+    return new RateLimitedError(`Gmail rate limit exceeded: ${message}`, {
+      ...options,
+      retryAfterMs: getRetryAfterMs(error),
+    });
+  }
+  if (status === 404) {
+    return new NotFoundError(`Not found: ${message}`, options);
+  }
+  if (status === 400) {
+    return new ValidationError(`Gmail rejected the request: ${message}`, options);
+  }
+  if (isRetryableError(error)) {
+    return new UpstreamUnavailableError(`Gmail is unavailable: ${message}`, options);
+  }
+
+  return new ToolError('INTERNAL', message, options);
+}
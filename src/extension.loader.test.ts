@@ -0,0 +1,210 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ServerExtension } from './extension';
+import {
+  assertUniqueNames,
+  discoverExtensions,
+  getEnableEnv,
+  isExtensionEnabled,
+  loadExtensions,
+  resolveExtensionConfig,
+  shutdownExtensions,
+} from './extension.loader';
+import { GmailService } from './gmail.service';
+
+function tool(name: string) {
+  return {
+    definition: {
+      name,
+      description: name,
+      inputSchema: { type: 'object' as const, properties: {} },
+    },
+    handler: async () => ({}),
+  };
+}
+
+describe('extension loader', () => {
+  const gmailService = {} as GmailService;
+
+  const weather: ServerExtension = {
+    name: 'weather',
+    config: {
+      city: { env: 'WEATHER_CITY', type: 'string', description: 'City name', required: true },
+      days: { env: 'WEATHER_DAYS', type: 'number', description: 'Forecast days', default: 3 },
+      metric: { env: 'WEATHER_METRIC', type: 'boolean', description: 'Use metric units' },
+    },
+    setup: jest.fn(({ config }) => ({ tools: [tool(`forecast_${config.city}`)] })),
+  };
+
+  describe('enable flags', () => {
+    it('derives the flag from the name unless the extension names one', () => {
+      expect(getEnableEnv({ ...weather, name: 'in-house-crm' })).toBe(
+        'ENABLE_EXTENSION_IN_HOUSE_CRM'
+      );
+      expect(getEnableEnv({ ...weather, enableEnv: 'ENABLE_WEATHER' })).toBe('ENABLE_WEATHER');
+    });
+
+    it('is enabled by default unless the extension says otherwise', () => {
+      expect(isExtensionEnabled(weather, {})).toBe(true);
+      expect(isExtensionEnabled({ ...weather, enabledByDefault: false }, {})).toBe(false);
+      expect(isExtensionEnabled(weather, { ENABLE_EXTENSION_WEATHER: 'off' })).toBe(false);
+      expect(isExtensionEnabled(weather, { ENABLE_EXTENSION_WEATHER: 'maybe' })).toBe(true);
+    });
+  });
+
+  describe('resolveExtensionConfig', () => {
+    it('reads, parses and defaults settings', () => {
+      expect(
+        resolveExtensionConfig(weather, { WEATHER_CITY: ' Oslo ', WEATHER_METRIC: 'yes' })
+      ).toEqual({ city: 'Oslo', days: 3, metric: true });
+      expect(resolveExtensionConfig(weather, { WEATHER_CITY: 'Oslo', WEATHER_DAYS: '7' })).toEqual({
+        city: 'Oslo',
+        days: 7,
+        metric: undefined,
+      });
+    });
+
+    it('rejects missing required and unparseable settings', () => {
+      expect(() => resolveExtensionConfig(weather, {})).toThrow(
+        'Extension "weather" requires WEATHER_CITY (City name)'
+      );
+      expect(() =>
+        resolveExtensionConfig(weather, { WEATHER_CITY: 'Oslo', WEATHER_DAYS: 'soon' })
+      ).toThrow('WEATHER_DAYS must be a number, got "soon"');
+      expect(() =>
+        resolveExtensionConfig(weather, { WEATHER_CITY: 'Oslo', WEATHER_METRIC: 'sometimes' })
+      ).toThrow('WEATHER_METRIC must be true or false');
+    });
+  });
+
+  describe('loadExtensions', () => {
+    it('sets up enabled extensions with their config and skips disabled ones', async () => {
+      const disabled: ServerExtension = { name: 'disabled', setup: jest.fn(() => ({})) };
+
+      const loaded = await loadExtensions([weather, disabled], { gmailService }, {
+        WEATHER_CITY: 'Oslo',
+        ENABLE_EXTENSION_DISABLED: 'false',
+      });
+
+      expect(loaded).toHaveLength(1);
+      expect(loaded[0]).toMatchObject({ name: 'weather', config: { city: 'Oslo', days: 3 } });
+      expect(loaded[0].tools?.[0].definition.name).toBe('forecast_Oslo');
+      expect(weather.setup).toHaveBeenCalledWith({
+        gmailService,
+        config: { city: 'Oslo', days: 3, metric: undefined },
+      });
+      expect(disabled.setup).not.toHaveBeenCalled();
+    });
+
+    it('does not read the config of disabled extensions', async () => {
+      await expect(
+        loadExtensions([weather], { gmailService }, { ENABLE_EXTENSION_WEATHER: '0' })
+      ).resolves.toEqual([]);
+    });
+
+    it('names the extension when its setup fails', async () => {
+      const broken: ServerExtension = {
+        name: 'broken',
+        setup: () => {
+          throw new Error('no token');
+        },
+      };
+
+      await expect(loadExtensions([broken], { gmailService }, {})).rejects.toThrow(
+        'Extension "broken" failed to start: no token'
+      );
+    });
+
+    it('rejects invalid extension names', async () => {
+      await expect(
+        loadExtensions([{ name: 'My Extension', setup: () => ({}) }], { gmailService }, {})
+      ).rejects.toThrow(/Invalid extension name "My Extension"/);
+    });
+  });
+
+  describe('discoverExtensions', () => {
+    let root: string;
+
+    beforeEach(() => {
+      root = mkdtempSync(join(tmpdir(), 'extensions-'));
+    });
+
+    afterEach(() => {
+      rmSync(root, { recursive: true, force: true });
+    });
+
+    function addExtension(directory: string, file = 'index.js') {
+      mkdirSync(join(root, directory));
+      writeFileSync(join(root, directory, file), '');
+    }
+
+    it('imports each extension directory in alphabetical order', async () => {
+      addExtension('zeta');
+      addExtension('alpha', 'index.ts');
+      writeFileSync(join(root, 'README.md'), '');
+      const importModule = jest.fn(async (url: string) => ({
+        extension: { name: url.includes('/alpha/') ? 'alpha' : 'zeta', setup: () => ({}) },
+      }));
+
+      const extensions = await discoverExtensions(root, { importModule });
+
+      expect(extensions.map((e) => e.name)).toEqual(['alpha', 'zeta']);
+      expect(importModule.mock.calls.map(([url]) => url)).toEqual([
+        expect.stringMatching(/^file:\/\/.*\/alpha\/index\.ts$/),
+        expect.stringMatching(/^file:\/\/.*\/zeta\/index\.js$/),
+      ]);
+    });
+
+    it('rejects directories without an extension export and duplicate names', async () => {
+      addExtension('one');
+      await expect(
+        discoverExtensions(root, { importModule: async () => ({ default: {} }) })
+      ).rejects.toThrow('Extension directory "one" does not export an extension');
+
+      addExtension('two');
+      await expect(
+        discoverExtensions(root, {
+          importModule: async () => ({ extension: { name: 'same', setup: () => ({}) } }),
+        })
+      ).rejects.toThrow('Duplicate extension name "same" (from one and two)');
+    });
+
+    it('returns nothing when the directory does not exist', async () => {
+      await expect(discoverExtensions(join(root, 'missing'))).resolves.toEqual([]);
+    });
+  });
+
+  it('reports name collisions with both sources', () => {
+    expect(() =>
+      assertUniqueNames('tool', [
+        { name: 'search_emails', source: 'core' },
+        { name: 'forecast', source: 'extension "weather"' },
+        { name: 'search_emails', source: 'extension "crm"' },
+      ])
+    ).toThrow('Duplicate tool name "search_emails" (from core and extension "crm")');
+  });
+
+  it('runs every shutdown hook even if one fails', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const onShutdown = jest.fn();
+
+    await shutdownExtensions([
+      {
+        name: 'failing',
+        config: {},
+        onShutdown: () => {
+          throw new Error('boom');
+        },
+      },
+      { name: 'ok', config: {}, onShutdown },
+    ]);
+
+    expect(onShutdown).toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith(
+      'Extension "failing" failed to shut down:',
+      expect.any(Error)
+    );
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,226 @@
+import { existsSync } from 'fs';
+import { readdir } from 'fs/promises';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import {
+  ExtensionConfig,
+  ExtensionContext,
+  ExtensionInstance,
+  ServerExtension,
+} from './extension.js';
+
+/**
+ * Finds, configures and sets up the extensions under src/extensions/.
+ *
+ * Each extension is switched on or off with its own environment variable and reads
+ * its settings from the environment as declared in its config schema. Problems that
+ * would otherwise surface mid-conversation (missing settings, two tools with the same
+ * name) fail startup instead.
+ */
+
+export type LoadedExtension = ExtensionInstance & {
+  name: string;
+  config: ExtensionConfig;
+};
+
+type Env = Record<string, string | undefined>;
+
+const EXTENSION_NAME = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/** Entry files tried in each extension directory: built output first, then source (tsx). */
+const ENTRY_FILES = ['index.js', 'index.ts'];
+
+/**
+ * Parses a boolean setting ("true"/"false", "yes"/"no", "1"/"0", "on"/"off" …).
+ * Unset or unrecognized values give undefined.
+ */
+export function parseBooleanSetting(raw: string | undefined): boolean | undefined {
+  const v = raw?.trim().toLowerCase();
+  if (v === undefined) return undefined;
+
+  if (['0', 'false', 'no', 'n', 'off', 'disabled'].includes(v)) return false;
+  if (['1', 'true', 'yes', 'y', 'on', 'enabled'].includes(v)) return true;
+
+  return undefined;
+}
+
+export function getEnableEnv(extension: ServerExtension): string {
+  const suffix = extension.name.replace(/-/g, '_').toUpperCase();
+  return extension.enableEnv ?? `ENABLE_EXTENSION_${suffix}`;
+}
+
+export function isExtensionEnabled(extension: ServerExtension, env: Env = process.env): boolean {
+  return parseBooleanSetting(env[getEnableEnv(extension)]) ?? extension.enabledByDefault ?? true;
+}
+
+/**
+ * Reads an extension's settings from the environment according to its config schema.
+ *
+ * @throws If a required setting is missing or a number/boolean setting can't be parsed
+ */
+export function resolveExtensionConfig(
+  extension: ServerExtension,
+  env: Env = process.env
+): ExtensionConfig {
+  const config: ExtensionConfig = {};
+
+  for (const [key, field] of Object.entries(extension.config ?? {})) {
+    const raw = env[field.env]?.trim();
+    if (!raw) {
+      if (field.default === undefined && field.required) {
+        throw new Error(
+          `Extension "${extension.name}" requires ${field.env} (${field.description})`
+        );
+      }
+      config[key] = field.default;
+      continue;
+    }
+
+    switch (field.type) {
+      case 'string':
+        config[key] = raw;
+        break;
+      case 'number': {
+        const value = Number(raw);
+        if (!Number.isFinite(value)) {
+          throw new Error(
+            `Extension "${extension.name}": ${field.env} must be a number, got "${raw}"`
+          );
+        }
+        config[key] = value;
+        break;
+      }
+      case 'boolean': {
+        const value = parseBooleanSetting(raw);
+        if (value === undefined) {
+          throw new Error(
+            `Extension "${extension.name}": ${field.env} must be true or false, got "${raw}"`
+          );
+        }
+        config[key] = value;
+        break;
+      }
+    }
+  }
+
+  return config;
+}
+
+function isServerExtension(value: unknown): value is ServerExtension {
+  const e = value as Partial<ServerExtension> | null;
+  return typeof e?.name === 'string' && typeof e.setup === 'function';
+}
+
+/**
+ * Imports every extension directory under `dir`, in alphabetical order. Each must
+ * export a ServerExtension named `extension` from its index.
+ *
+ * @throws If a directory has no index, doesn't export an extension, or two
+ *   extensions share a name
+ */
+export async function discoverExtensions(
+  dir: string,
+  options?: { importModule?: (url: string) => Promise<Record<string, unknown>> }
+): Promise<ServerExtension[]> {
+  const importModule = options?.importModule ?? ((url: string) => import(url));
+
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const directories = entries
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+
+  const extensions: Array<{ extension: ServerExtension; directory: string }> = [];
+  for (const directory of directories) {
+    const entryFile = ENTRY_FILES.map((file) => join(dir, directory, file)).find(existsSync);
+    if (!entryFile) {
+      throw new Error(`Extension directory "${directory}" has no ${ENTRY_FILES.join(' or ')}`);
+    }
+
+    const module = await importModule(pathToFileURL(entryFile).href);
+    if (!isServerExtension(module.extension)) {
+      throw new Error(`Extension directory "${directory}" does not export an extension`);
+    }
+    extensions.push({ extension: module.extension, directory });
+  }
+
+  assertUniqueNames(
+    'extension',
+    extensions.map(({ extension, directory }) => ({ name: extension.name, source: directory }))
+  );
+  return extensions.map(({ extension }) => extension);
+}
+
+/**
+ * Sets up the enabled extensions with their resolved settings, in the given order.
+ *
+ * @throws If an extension has an invalid name or settings, or its setup fails
+ */
+export async function loadExtensions(
+  extensions: ServerExtension[],
+  context: Omit<ExtensionContext, 'config'>,
+  env: Env = process.env
+): Promise<LoadedExtension[]> {
+  const loaded: LoadedExtension[] = [];
+
+  for (const extension of extensions) {
+    if (!EXTENSION_NAME.test(extension.name)) {
+      throw new Error(
+        `Invalid extension name "${extension.name}": use lowercase letters, digits and dashes`
+      );
+    }
+    if (!isExtensionEnabled(extension, env)) continue;
+
+    const config = resolveExtensionConfig(extension, env);
+    let instance: ExtensionInstance;
+    try {
+      instance = await extension.setup({ ...context, config });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Extension "${extension.name}" failed to start: ${message}`);
+    }
+    loaded.push({ ...instance, name: extension.name, config });
+  }
+
+  return loaded;
+}
+
+/**
+ * Fails when two entries share a name, naming both sources, e.g. two tools called
+ * "search_emails" from the core tools and an extension.
+ */
+export function assertUniqueNames(
+  kind: string,
+  entries: Array<{ name: string; source: string }>
+): void {
+  const sources = new Map<string, string>();
+  for (const { name, source } of entries) {
+    const existing = sources.get(name);
+    if (existing !== undefined) {
+      throw new Error(`Duplicate ${kind} name "${name}" (from ${existing} and ${source})`);
+    }
+    sources.set(name, source);
+  }
+}
+
+/**
+ * Calls every extension's onShutdown hook. Failures are reported on stderr so one
+ * extension can't keep the others from cleaning up.
+ */
+export async function shutdownExtensions(extensions: LoadedExtension[]): Promise<void> {
+  await Promise.all(
+    extensions.map(async (extension) => {
+      try {
+        await extension.onShutdown?.();
+      } catch (error) {
+        console.error(`Extension "${extension.name}" failed to shut down:`, error);
+      }
+    })
+  );
+}
@@ -0,0 +1,81 @@
+import {
+  GetPromptResult,
+  Prompt,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+import { GmailService } from './gmail.service.js';
+import { McpTool } from './mcp.tool.js';
+import { TextEquivalent } from './text.alternative.js';
+
+/**
+ * The interface extensions implement. An extension lives in its own directory under
+ * src/extensions/ and exports a `ServerExtension` named `extension` from its index;
+ * the loader (src/extension.loader.ts) finds it there, so adding one doesn't touch
+ * index.ts.
+ */
+
+/** One setting, read from an environment variable. */
+export type ExtensionConfigField = {
+  env: string;
+  type: 'string' | 'number' | 'boolean';
+  description: string;
+  default?: string | number | boolean;
+  /** Startup fails when a required setting is missing. Ignored if there is a default. */
+  required?: boolean;
+};
+
+export type ExtensionConfigSchema = Record<string, ExtensionConfigField>;
+
+/** Resolved settings, keyed like the schema. Unset optional settings are undefined. */
+export type ExtensionConfig = Record<string, string | number | boolean | undefined>;
+
+export type ExtensionContext = {
+  config: ExtensionConfig;
+  gmailService: GmailService;
+};
+
+export type ExtensionPrompt = {
+  definition: Prompt;
+  handler: (args?: Record<string, string>) => Promise<GetPromptResult>;
+};
+
+/** Resources under a URI scheme the extension owns, e.g. "apod" for apod://… URIs. */
+export type ExtensionResources = {
+  scheme: string;
+  templates?: ResourceTemplate[];
+  /** Listed on the first resources/list page, before the inbox. */
+  list?: () => Promise<Resource[]>;
+  read: (uri: string) => Promise<ReadResourceResult>;
+};
+
+/** What an enabled extension contributes once set up. Everything is optional. */
+export type ExtensionInstance = {
+  tools?: McpTool[];
+  prompts?: ExtensionPrompt[];
+  resources?: ExtensionResources;
+  /**
+   * HTML fragments the extension produced along with a hand-written plain-text
+   * version, used when deriving the text/plain part of HTML drafts.
+   */
+  textEquivalents?: () => TextEquivalent[];
+  /** Extra instructions for the draft_reply prompt. */
+  draftGuidance?: string[];
+  /** Called once the server is connected. */
+  onStart?: () => void | Promise<void>;
+  /** Called when the server closes. */
+  onShutdown?: () => void | Promise<void>;
+};
+
+export type ServerExtension = {
+  /** Lowercase letters, digits and dashes, e.g. "nasa-apod". */
+  name: string;
+  description?: string;
+  /** Environment variable that turns the extension on or off. Default ENABLE_EXTENSION_<NAME>. */
+  enableEnv?: string;
+  /** Whether the extension is on when its enable flag is unset. Default true. */
+  enabledByDefault?: boolean;
+  config?: ExtensionConfigSchema;
+  setup: (context: ExtensionContext) => ExtensionInstance | Promise<ExtensionInstance>;
+};
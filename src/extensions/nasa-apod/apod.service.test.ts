@@ -37,6 +37,9 @@ describe('APODService', () => {
     expect(result.spaceEditionBlock).toContain('Did you know? Space Edition!');
     expect(result.spaceEditionBlockHtml).toContain('Did you know? Space Edition!');
     expect(result.spaceEditionBlockHtml).toContain('<img');
+    expect(service.getRecentSpaceEditionBlocks()).toEqual([
+      { html: result.spaceEditionBlockHtml, text: result.spaceEditionBlock },
+    ]);
   });
 
   it('walks back by date when the requested date fails', async () => {
@@ -87,9 +90,38 @@ describe('APODService', () => {
       text: async () => 'Server error',
     } as any);
 
+    const error = await service
+      .getSpacePictureOfTheDay({ date: '2026-01-22', maxDaysBack: 1 })
+      .catch((e) => e);
+
+    expect(error.message).toMatch('Unable to fetch NASA APOD');
+    expect(error).toMatchObject({ code: 'UPSTREAM_UNAVAILABLE', retryable: true });
+  });
+
+  it('reports network failures as an unavailable upstream', async () => {
+    const service = new APODService('TEST_KEY');
+    global.fetch = jest.fn().mockRejectedValue(new TypeError('fetch failed'));
+
     await expect(
-      service.getSpacePictureOfTheDay({ date: '2026-01-22', maxDaysBack: 1 })
-    ).rejects.toThrow('Unable to fetch NASA APOD');
+      service.getSpacePictureOfTheDay({ date: '2026-01-22', maxDaysBack: 0 })
+    ).rejects.toMatchObject({ code: 'UPSTREAM_UNAVAILABLE', retryable: true });
+  });
+
+  it.each([
+    [403, 'AUTH_EXPIRED', false],
+    [429, 'RATE_LIMITED', true],
+  ])('stops walking back on HTTP %s (%s)', async (status, code, retryable) => {
+    const service = new APODService('BAD_KEY');
+    const fetchMock = jest.fn().mockResolvedValue({ ok: false, status, text: async () => '' });
+    global.fetch = fetchMock as any;
+
+    const error = await service
+      .getSpacePictureOfTheDay({ date: '2026-01-22', maxDaysBack: 5 })
+      .catch((e) => e);
+
+    expect(error).toMatchObject({ code, retryable });
+    expect(error.remediation).toMatch(/NASA_API_KEY/);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
   });
 });
 
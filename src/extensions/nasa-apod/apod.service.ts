@@ -1,3 +1,12 @@
+import {
+  AuthExpiredError,
+  NotFoundError,
+  RateLimitedError,
+  ToolError,
+  UpstreamUnavailableError,
+  ValidationError,
+} from '../../errors.js';
+
 /**
  * NASA Astronomy Picture of the Day (APOD) Service
  *
@@ -5,6 +14,8 @@
  * suitable for adding to an email draft.
  */
 
+const API_KEY_HINT = 'Get a free key at https://api.nasa.gov/ and set NASA_API_KEY.';
+
 export type ApodMediaType = 'image' | 'video' | string;
 
 export type ApodApiResponse = {
@@ -38,6 +49,8 @@ export type SpacePictureOfTheDay = {
 export class APODService {
   private readonly apiKey: string;
   private readonly baseUrl = 'https://api.nasa.gov/planetary/apod';
+  /** Most recent results, newest first, so drafts can match the blocks they embed. */
+  private readonly recentResults: SpacePictureOfTheDay[] = [];
 
   constructor(apiKey?: string) {
     this.apiKey = apiKey || process.env.NASA_API_KEY || 'DEMO_KEY';
@@ -50,32 +63,55 @@ export class APODService {
     const requestedDate = options?.date ?? this.formatDateUTC(new Date());
 
     if (!this.isValidDateFormat(requestedDate)) {
-      throw new Error('Invalid date format. Use YYYY-MM-DD.');
+      throw new ValidationError('Invalid date format. Use YYYY-MM-DD.');
     }
 
     const maxDaysBack = this.clampInt(options?.maxDaysBack ?? 10, 0, 30);
 
     let current = this.parseDateUTC(requestedDate);
-    const failures: Array<{ date: string; reason: string }> = [];
+    const failures: Array<{ date: string; error: ToolError }> = [];
 
     for (let i = 0; i <= maxDaysBack; i++) {
       const dateToTry = this.formatDateUTC(current);
       try {
         const apod = await this.fetchApod(dateToTry);
-        return this.toSpacePictureOfTheDay(apod, requestedDate);
+        const result = this.toSpacePictureOfTheDay(apod, requestedDate);
+        this.rememberResult(result);
+        return result;
       } catch (err) {
-        const reason = err instanceof Error ? err.message : String(err);
-        failures.push({ date: dateToTry, reason });
+        const error = this.toApodError(err);
+        // An earlier date won't fix a bad key or a spent quota
+        if (error instanceof AuthExpiredError || error instanceof RateLimitedError) throw error;
+        failures.push({ date: dateToTry, error });
         current = this.addDaysUTC(current, -1);
       }
     }
 
     const last = failures[failures.length - 1];
-    throw new Error(
-      `Unable to fetch NASA APOD after checking ${failures.length} day(s) back from ${requestedDate}. Last error (${last?.date}): ${last?.reason}`
+    throw new ToolError(
+      last.error.code,
+      `Unable to fetch NASA APOD after checking ${failures.length} day(s) back from ${requestedDate}. Last error (${last.date}): ${last.error.message}`,
+      { retryable: last.error.retryable, remediation: last.error.remediation, cause: last.error }
     );
   }
 
+  /**
+   * The Space Edition blocks returned recently, as HTML with their plain-text version.
+   * Used to give HTML drafts that embed `spaceEditionBlockHtml` a text/plain part that
+   * uses `spaceEditionBlock` rather than a mechanical HTML conversion.
+   */
+  getRecentSpaceEditionBlocks(): Array<{ html: string; text: string }> {
+    return this.recentResults.map((r) => ({
+      html: r.spaceEditionBlockHtml,
+      text: r.spaceEditionBlock,
+    }));
+  }
+
+  private rememberResult(result: SpacePictureOfTheDay): void {
+    this.recentResults.unshift(result);
+    this.recentResults.splice(5);
+  }
+
   private async fetchApod(date?: string): Promise<ApodApiResponse> {
     const params = new URLSearchParams({ api_key: this.apiKey });
     if (date) params.append('date', date);
@@ -85,18 +121,44 @@ export class APODService {
 
     if (!response.ok) {
       const errorText = await response.text().catch(() => '');
-      throw new Error(`NASA API error (${response.status}): ${errorText}`.trim());
+      const message = `NASA API error (${response.status}): ${errorText}`.trim();
+      switch (response.status) {
+        case 401:
+        case 403:
+          throw new AuthExpiredError(message, {
+            remediation: `NASA rejected the API key. ${API_KEY_HINT}`,
+          });
+        case 429:
+          throw new RateLimitedError(message, {
+            remediation: `Wait before trying again. DEMO_KEY allows very few calls; ${API_KEY_HINT}`,
+          });
+        case 400:
+        case 404:
+          // APOD answers 400 for dates it has no picture for (e.g. before 1995-06-16)
+          throw new NotFoundError(message);
+        default:
+          throw new UpstreamUnavailableError(message);
+      }
     }
 
     const data = (await response.json()) as ApodApiResponse;
 
     if (!data?.date || !data?.title || !data?.explanation || !data?.url) {
-      throw new Error('NASA API returned an unexpected response shape.');
+      throw new UpstreamUnavailableError('NASA API returned an unexpected response shape.');
     }
 
     return data;
   }
 
+  /** fetch() itself rejects on network failures; those are an unreachable upstream. */
+  private toApodError(error: unknown): ToolError {
+    if (error instanceof ToolError) return error;
+    const message = error instanceof Error ? error.message : String(error);
+    return new UpstreamUnavailableError(`Could not reach the NASA API: ${message}`, {
+      cause: error,
+    });
+  }
+
   private toSpacePictureOfTheDay(
     apod: ApodApiResponse,
     requestedDate: string
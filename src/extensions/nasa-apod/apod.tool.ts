@@ -1,33 +1,21 @@
+import { McpTool, McpToolDefinition, McpToolHandler } from '../../mcp.tool.js';
 import { APODService } from './apod.service.js';
 
-export type McpToolDefinition = {
-  name: string;
-  description: string;
-  inputSchema: {
-    type: 'object';
-    properties: Record<string, unknown>;
-    required?: string[];
-  };
-};
-
-export type McpToolHandler = (args: unknown) => Promise<unknown>;
-
-export type McpTool = {
-  definition: McpToolDefinition;
-  handler: McpToolHandler;
-};
-
 function spacePictureInputSchema(): McpToolDefinition['inputSchema'] {
   return {
     type: 'object',
+    additionalProperties: false,
     properties: {
       date: {
         type: 'string',
+        pattern: '^\\d{4}-\\d{2}-\\d{2}$',
         description:
           'Optional date (YYYY-MM-DD). Defaults to today. If the APOD is missing for that date, the server will try previous days.',
       },
       maxDaysBack: {
-        type: 'number',
+        type: 'integer',
+        minimum: 0,
+        maximum: 30,
         description:
           'How many days back to search if the requested date fails. Default 10; max 30.',
       },
@@ -58,6 +46,7 @@ export function createNasaApodTools(apodService: APODService): McpTool[] {
     {
       definition: {
         name: 'get_space_picture_of_the_day',
+        annotations: { readOnlyHint: true },
         description: SPACE_TOOL_DESCRIPTION,
         inputSchema: spacePictureInputSchema(),
       },
@@ -67,6 +56,7 @@ export function createNasaApodTools(apodService: APODService): McpTool[] {
     {
       definition: {
         name: 'get_cosmic_inspiration',
+        annotations: { readOnlyHint: true },
         description: SPACE_TOOL_DESCRIPTION,
         inputSchema: spacePictureInputSchema(),
       },
@@ -0,0 +1,32 @@
+import { GmailService } from '../../gmail.service';
+import { APODService } from './apod.service';
+import { extension } from './index';
+
+describe('nasa-apod extension', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps its original enable flag and API key setting', () => {
+    expect(extension.name).toBe('nasa-apod');
+    expect(extension.enableEnv).toBe('ENABLE_SPACE_PICTURE_OF_THE_DAY');
+    expect(extension.config?.apiKey).toMatchObject({ env: 'NASA_API_KEY', default: 'DEMO_KEY' });
+  });
+
+  it('contributes the space tools, draft guidance and Space Edition text equivalents', async () => {
+    const blocks = [{ html: '<p>Space</p>', text: 'Space' }];
+    jest.spyOn(APODService.prototype, 'getRecentSpaceEditionBlocks').mockReturnValue(blocks);
+
+    const instance = await extension.setup({
+      config: { apiKey: 'TEST_KEY' },
+      gmailService: {} as GmailService,
+    });
+
+    expect(instance.tools?.map((t) => t.definition.name)).toEqual([
+      'get_space_picture_of_the_day',
+      'get_cosmic_inspiration',
+    ]);
+    expect(instance.draftGuidance?.join('\n')).toContain('get_space_picture_of_the_day');
+    expect(instance.textEquivalents?.()).toEqual(blocks);
+  });
+});
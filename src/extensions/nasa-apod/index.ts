@@ -1,3 +1,39 @@
+import { ServerExtension } from '../../extension.js';
+import { APODService } from './apod.service.js';
+import { createNasaApodTools } from './apod.tool.js';
+
 export { APODService } from './apod.service.js';
 export { createNasaApodTools } from './apod.tool.js';
 
+/**
+ * Optional Space Extension: NASA Astronomy Picture of the Day as a
+ * "Did you know? Space Edition!" section for draft replies.
+ */
+export const extension: ServerExtension = {
+  name: 'nasa-apod',
+  description: 'NASA Astronomy Picture of the Day for "Did you know? Space Edition!" sections',
+  // Kept from before extensions had their own flags
+  enableEnv: 'ENABLE_SPACE_PICTURE_OF_THE_DAY',
+  config: {
+    apiKey: {
+      env: 'NASA_API_KEY',
+      type: 'string',
+      default: 'DEMO_KEY',
+      description: 'NASA API key; DEMO_KEY works with low rate limits',
+    },
+  },
+  setup: ({ config }) => {
+    const apodService = new APODService(String(config.apiKey));
+
+    return {
+      tools: createNasaApodTools(apodService),
+      // Reuse the hand-written plain Space Edition block for the text/plain part
+      textEquivalents: () => apodService.getRecentSpaceEditionBlocks(),
+      draftGuidance: [
+        'Before drafting, ask me whether to include a "Did you know? Space Edition!" section.',
+        '- If yes: call get_space_picture_of_the_day, append spaceEditionBlockHtml after the reply, and set format "html" so the image renders.',
+        '- If no: do not call the space tool; draft a normal reply.',
+      ],
+    };
+  },
+};
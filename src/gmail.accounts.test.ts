@@ -0,0 +1,113 @@
+import { GmailAccounts, readGmailAccountsConfig, refreshTokenEnv } from './gmail.accounts';
+import { ValidationError } from './errors';
+import { GmailService } from './gmail.service';
+
+function service(emailAddress: string | Error): GmailService {
+  return {
+    getEmailAddress: jest.fn(async () => {
+      if (emailAddress instanceof Error) throw emailAddress;
+      return emailAddress;
+    }),
+  } as unknown as GmailService;
+}
+
+describe('readGmailAccountsConfig', () => {
+  it('treats GMAIL_REFRESH_TOKEN as the default account', () => {
+    expect(readGmailAccountsConfig({ GMAIL_REFRESH_TOKEN: 'token' })).toEqual({
+      accounts: [{ name: 'default', refreshToken: 'token', source: 'env' }],
+      defaultAccount: 'default',
+    });
+  });
+
+  it('reads named accounts from GMAIL_ACCOUNTS and their own refresh tokens', () => {
+    const config = readGmailAccountsConfig({
+      GMAIL_REFRESH_TOKEN: 'token',
+      GMAIL_ACCOUNTS: 'work, shared-inbox,work',
+      GMAIL_REFRESH_TOKEN_WORK: 'work-token',
+      GMAIL_REFRESH_TOKEN_SHARED_INBOX: 'shared-token',
+    });
+
+    expect(config.accounts).toEqual([
+      { name: 'default', refreshToken: 'token', source: 'env' },
+      { name: 'work', refreshToken: 'work-token', source: 'env' },
+      { name: 'shared-inbox', refreshToken: 'shared-token', source: 'env' },
+    ]);
+    expect(config.defaultAccount).toBe('default');
+  });
+
+  it('prefers tokens from the token store and adds the accounts only stored there', () => {
+    const config = readGmailAccountsConfig(
+      { GMAIL_REFRESH_TOKEN: 'env-token', GMAIL_ACCOUNTS: 'work', GMAIL_REFRESH_TOKEN_WORK: 'w' },
+      { personal: 'stored-personal', default: 'stored-default' }
+    );
+
+    expect(config.accounts).toEqual([
+      { name: 'default', refreshToken: 'stored-default', source: 'store' },
+      { name: 'work', refreshToken: 'w', source: 'env' },
+      { name: 'personal', refreshToken: 'stored-personal', source: 'store' },
+    ]);
+  });
+
+  it('uses GMAIL_DEFAULT_ACCOUNT, or the first named account without a default one', () => {
+    const env = {
+      GMAIL_ACCOUNTS: 'work,personal',
+      GMAIL_REFRESH_TOKEN_WORK: 'w',
+      GMAIL_REFRESH_TOKEN_PERSONAL: 'p',
+    };
+
+    expect(readGmailAccountsConfig(env).defaultAccount).toBe('work');
+    expect(
+      readGmailAccountsConfig({ ...env, GMAIL_DEFAULT_ACCOUNT: 'personal' }).defaultAccount
+    ).toBe('personal');
+  });
+
+  it('fails when accounts are missing, misnamed or lack a token', () => {
+    expect(() => readGmailAccountsConfig({})).toThrow(/No Gmail account configured/);
+    expect(() => readGmailAccountsConfig({ GMAIL_ACCOUNTS: 'work' })).toThrow(
+      /"work" has no refresh token in the token store or GMAIL_REFRESH_TOKEN_WORK/
+    );
+    expect(() =>
+      readGmailAccountsConfig({ GMAIL_ACCOUNTS: 'my work', GMAIL_REFRESH_TOKEN: 't' })
+    ).toThrow(/Invalid account name "my work"/);
+    expect(() =>
+      readGmailAccountsConfig({ GMAIL_REFRESH_TOKEN: 't', GMAIL_DEFAULT_ACCOUNT: 'work' })
+    ).toThrow(/GMAIL_DEFAULT_ACCOUNT "work" is not a configured account/);
+  });
+});
+
+describe('refreshTokenEnv', () => {
+  it('keeps GMAIL_REFRESH_TOKEN for the default account', () => {
+    expect(refreshTokenEnv('default')).toBe('GMAIL_REFRESH_TOKEN');
+    expect(refreshTokenEnv('shared-inbox')).toBe('GMAIL_REFRESH_TOKEN_SHARED_INBOX');
+  });
+});
+
+describe('GmailAccounts', () => {
+  const work = service('me@work.example');
+  const personal = service(new Error('invalid_grant'));
+  const accounts = new GmailAccounts(
+    new Map([
+      ['work', work],
+      ['personal', personal],
+    ]),
+    'work'
+  );
+
+  it('returns the requested account, or the default one', () => {
+    expect(accounts.get('personal')).toBe(personal);
+    expect(accounts.get()).toBe(work);
+    expect(accounts.resolve()).toBe('work');
+  });
+
+  it('rejects unknown accounts with the available names', () => {
+    expect(() => accounts.get('other')).toThrow(ValidationError);
+    expect(() => accounts.get('other')).toThrow('Unknown account "other"');
+  });
+
+  it('lists accounts with their address, reporting lookups that fail', async () => {
+    await expect(accounts.list()).resolves.toEqual([
+      { name: 'work', default: true, emailAddress: 'me@work.example' },
+      { name: 'personal', default: false, error: 'invalid_grant' },
+    ]);
+  });
+});
@@ -0,0 +1,171 @@
+import { ValidationError } from './errors.js';
+import { GmailService } from './gmail.service.js';
+
+/**
+ * Named Gmail accounts served by one server, e.g. "work" and "personal", each with its
+ * own refresh token. Tools take an optional `account` argument; without it they use
+ * the default account.
+ *
+ * Configuration:
+ * - `npm run auth` saves each account's refresh token in the token store
+ *   (src/token.store.ts); a stored token takes precedence over the environment
+ * - GMAIL_REFRESH_TOKEN is the account named "default"
+ * - GMAIL_ACCOUNTS lists further accounts (comma-separated), each with its token in
+ *   GMAIL_REFRESH_TOKEN_<NAME>, e.g. GMAIL_REFRESH_TOKEN_WORK
+ * - GMAIL_DEFAULT_ACCOUNT picks the default; otherwise "default", or the first one
+ */
+
+export const DEFAULT_ACCOUNT = 'default';
+
+export type GmailAccountConfig = {
+  name: string;
+  refreshToken: string;
+  /** Where the refresh token came from. */
+  source: 'store' | 'env';
+};
+
+export type GmailAccountsConfig = {
+  accounts: GmailAccountConfig[];
+  defaultAccount: string;
+};
+
+export type AccountSummary = {
+  name: string;
+  default: boolean;
+  /** The authorized mailbox, when it could be looked up. */
+  emailAddress?: string;
+  error?: string;
+};
+
+type Env = Record<string, string | undefined>;
+
+const ACCOUNT_NAME = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/**
+ * Checks an account name: lowercase letters, digits and dashes, e.g. "shared-inbox".
+ *
+ * @throws If the name is invalid
+ */
+export function assertValidAccountName(name: string): void {
+  if (!ACCOUNT_NAME.test(name)) {
+    throw new Error(
+      `Invalid account name "${name}": use lowercase letters, digits and dashes (e.g. "work")`
+    );
+  }
+}
+
+/** The environment variable holding an account's refresh token. */
+export function refreshTokenEnv(name: string): string {
+  if (name === DEFAULT_ACCOUNT) return 'GMAIL_REFRESH_TOKEN';
+  return `GMAIL_REFRESH_TOKEN_${name.replace(/-/g, '_').toUpperCase()}`;
+}
+
+/** Splits GMAIL_ACCOUNTS into names, dropping blanks and duplicates. */
+export function parseAccountNames(raw: string | undefined): string[] {
+  const names = (raw ?? '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  return [...new Set(names)];
+}
+
+/**
+ * Reads the configured accounts and their refresh tokens from the token store and the
+ * environment.
+ *
+ * @param env - The environment
+ * @param storedTokens - Refresh tokens from the token store, keyed by account name
+ * @throws If no account is configured, a listed account has no refresh token, a name
+ *   is invalid, or GMAIL_DEFAULT_ACCOUNT names an unknown account
+ */
+export function readGmailAccountsConfig(
+  env: Env = process.env,
+  storedTokens: Record<string, string> = {}
+): GmailAccountsConfig {
+  let names = [
+    ...new Set([...parseAccountNames(env.GMAIL_ACCOUNTS), ...Object.keys(storedTokens)]),
+  ];
+  if (env.GMAIL_REFRESH_TOKEN?.trim() || storedTokens[DEFAULT_ACCOUNT]) {
+    names = [DEFAULT_ACCOUNT, ...names.filter((name) => name !== DEFAULT_ACCOUNT)];
+  }
+  if (names.length === 0) {
+    throw new Error('No Gmail account configured. Run "npm run auth" to authorize one.');
+  }
+
+  const accounts = names.map((name) => {
+    assertValidAccountName(name);
+    const stored = storedTokens[name];
+    if (stored) return { name, refreshToken: stored, source: 'store' as const };
+
+    const refreshToken = env[refreshTokenEnv(name)]?.trim();
+    if (!refreshToken) {
+      throw new Error(
+        `Gmail account "${name}" has no refresh token in the token store or ${refreshTokenEnv(name)}. Run "npm run auth -- --account ${name}".`
+      );
+    }
+    return { name, refreshToken, source: 'env' as const };
+  });
+
+  const defaultAccount =
+    env.GMAIL_DEFAULT_ACCOUNT?.trim().toLowerCase() ||
+    (names.includes(DEFAULT_ACCOUNT) ? DEFAULT_ACCOUNT : names[0]);
+  if (!names.includes(defaultAccount)) {
+    throw new Error(
+      `GMAIL_DEFAULT_ACCOUNT "${defaultAccount}" is not a configured account (${names.join(', ')})`
+    );
+  }
+
+  return { accounts, defaultAccount };
+}
+
+export class GmailAccounts {
+  private readonly services: Map<string, GmailService>;
+  readonly defaultAccount: string;
+
+  constructor(services: Map<string, GmailService>, defaultAccount: string) {
+    if (!services.has(defaultAccount)) {
+      throw new Error(`Default account "${defaultAccount}" is not configured`);
+    }
+    this.services = services;
+    this.defaultAccount = defaultAccount;
+  }
+
+  /** Account names in configuration order. */
+  get names(): string[] {
+    return [...this.services.keys()];
+  }
+
+  /** The account name a call uses: the given one, or the default. */
+  resolve(name?: string): string {
+    const resolved = name ?? this.defaultAccount;
+    if (!this.services.has(resolved)) {
+      throw new ValidationError(`Unknown account "${resolved}"`, {
+        remediation: `Use one of: ${this.names.join(', ')} (see list_accounts).`,
+      });
+    }
+    return resolved;
+  }
+
+  /**
+   * Returns the service for an account, or the default account's.
+   *
+   * @throws ValidationError for an unknown account
+   */
+  get(name?: string): GmailService {
+    return this.services.get(this.resolve(name))!;
+  }
+
+  /** Lists the accounts with their mailbox address. Lookups that fail are reported per account. */
+  async list(): Promise<AccountSummary[]> {
+    return Promise.all(
+      [...this.services].map(async ([name, service]) => {
+        const summary = { name, default: name === this.defaultAccount };
+        try {
+          return { ...summary, emailAddress: await service.getEmailAddress() };
+        } catch (error) {
+          return { ...summary, error: error instanceof Error ? error.message : String(error) };
+        }
+      })
+    );
+  }
+}
@@ -0,0 +1,178 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { getGmailPrompt, PROMPTS } from './gmail.prompts';
+import { GmailService } from './gmail.service';
+
+describe('gmail prompts', () => {
+  let gmailService: jest.Mocked<Pick<GmailService, 'getEmail' | 'getThread' | 'searchEmails'>>;
+
+  beforeEach(() => {
+    gmailService = {
+      getEmail: jest.fn().mockResolvedValue({
+        sender: 'alice@example.com',
+        subject: 'Lunch?',
+        body: 'Are you free on Friday?',
+        emailId: 'msg1',
+        threadId: 'thread1',
+        attachments: [],
+      }),
+      getThread: jest.fn().mockResolvedValue({
+        threadId: 'thread1',
+        subject: 'Project plan',
+        messages: [
+          {
+            emailId: 'msg1',
+            sender: 'alice@example.com',
+            date: 'Mon, 5 Jan 2026 09:00:00 +0000',
+            subject: 'Project plan',
+            body: 'Can we ship on Friday?',
+            attachments: [
+              { filename: 'plan.pdf', mimeType: 'application/pdf', size: 10, attachmentId: 'a1' },
+            ],
+          },
+          {
+            emailId: 'msg2',
+            sender: 'bob@example.com',
+            date: 'Mon, 5 Jan 2026 10:00:00 +0000',
+            subject: 'Re: Project plan',
+            body: 'Friday works.',
+            attachments: [],
+          },
+        ],
+      }),
+      searchEmails: jest.fn().mockResolvedValue({
+        emails: [
+          {
+            sender: 'alice@example.com',
+            subject: 'Lunch?',
+            body: 'Are you free on Friday?',
+            emailId: 'msg1',
+            threadId: 'thread1',
+          },
+        ],
+        resultSizeEstimate: 40,
+      }),
+    };
+  });
+
+  const service = () => gmailService as unknown as GmailService;
+  const text = (result: Awaited<ReturnType<typeof getGmailPrompt>>) => {
+    const content = result.messages[0].content;
+    return content.type === 'text' ? content.text : '';
+  };
+
+  it('lists the three prompts with their arguments', () => {
+    expect(PROMPTS.map((p) => p.name)).toEqual(['triage_inbox', 'draft_reply', 'summarize_thread']);
+    expect(PROMPTS[1].arguments).toEqual([
+      expect.objectContaining({ name: 'emailId', required: true }),
+      expect.objectContaining({ name: 'tone' }),
+    ]);
+  });
+
+  describe('triage_inbox', () => {
+    it('lists the newest unread inbox emails as snippets', async () => {
+      const result = await getGmailPrompt(service(), 'triage_inbox', { maxEmails: '10' });
+
+      expect(gmailService.searchEmails).toHaveBeenCalledWith('is:unread', {
+        labelIds: ['INBOX'],
+        maxResults: 10,
+        bodyFormat: 'snippet',
+      });
+      expect(result.messages[0].role).toBe('user');
+      expect(text(result)).toContain('1 unread emails (about 40 unread in total; these are the newest)');
+      expect(text(result)).toContain('Email ID: msg1');
+      expect(text(result)).toContain('Subject: Lunch?');
+    });
+
+    it('defaults and caps maxEmails', async () => {
+      await getGmailPrompt(service(), 'triage_inbox');
+      await getGmailPrompt(service(), 'triage_inbox', { maxEmails: '1000' });
+
+      expect(gmailService.searchEmails.mock.calls[0][1]).toMatchObject({ maxResults: 25 });
+      expect(gmailService.searchEmails.mock.calls[1][1]).toMatchObject({ maxResults: 100 });
+    });
+
+    it('suggests only the tools the server exposes', async () => {
+      const all = await getGmailPrompt(service(), 'triage_inbox');
+      const readOnly = await getGmailPrompt(service(), 'triage_inbox', undefined, {
+        toolNames: new Set(['get_unread_emails', 'get_thread']),
+      });
+      const archiveOnly = await getGmailPrompt(service(), 'triage_inbox', undefined, {
+        toolNames: new Set(['archive_emails']),
+      });
+
+      expect(text(all)).toContain(
+        'draft replies with create_draft_reply, and mark_as_read or archive_emails for the rest.'
+      );
+      expect(text(readOnly)).not.toMatch(/create_draft_reply|mark_as_read|archive_emails/);
+      expect(text(readOnly)).toContain('you cannot change the mailbox');
+      expect(text(archiveOnly)).toContain('until I confirm: archive_emails for the rest.');
+    });
+
+    it('rejects a non-numeric maxEmails', async () => {
+      await expect(getGmailPrompt(service(), 'triage_inbox', { maxEmails: 'lots' })).rejects.toThrow(
+        /maxEmails must be a positive whole number/
+      );
+    });
+  });
+
+  describe('draft_reply', () => {
+    it('includes the email, the tone and the create_draft_reply call', async () => {
+      const result = await getGmailPrompt(service(), 'draft_reply', {
+        emailId: 'msg1',
+        tone: 'formal',
+      });
+
+      expect(gmailService.getEmail).toHaveBeenCalledWith('msg1');
+      expect(result.description).toBe('Draft a formal reply to "Lunch?"');
+      expect(text(result)).toContain('Tone: formal.');
+      expect(text(result)).toContain('Are you free on Friday?');
+      expect(text(result)).toContain('call create_draft_reply with emailId "msg1"');
+      expect(text(result)).not.toContain('Space Edition');
+    });
+
+    it('adds guidance contributed by extensions', async () => {
+      const result = await getGmailPrompt(
+        service(),
+        'draft_reply',
+        { emailId: 'msg1' },
+        { draftGuidance: ['Ask whether to include a Space Edition section.'] }
+      );
+
+      expect(text(result)).toContain('Tone: friendly and professional.');
+      expect(text(result)).toContain('\nAsk whether to include a Space Edition section.\n');
+    });
+
+    it('requires emailId', async () => {
+      const error = await getGmailPrompt(service(), 'draft_reply', {}).catch((e) => e);
+
+      expect(error).toBeInstanceOf(McpError);
+      expect(error.code).toBe(ErrorCode.InvalidParams);
+      expect(error.message).toMatch(/Missing required argument: emailId/);
+    });
+
+    it('reports an email that does not exist', async () => {
+      gmailService.getEmail.mockRejectedValue(Object.assign(new Error('Not Found'), { code: 404 }));
+
+      await expect(getGmailPrompt(service(), 'draft_reply', { emailId: 'gone' })).rejects.toThrow(
+        /Email gone not found/
+      );
+    });
+  });
+
+  describe('summarize_thread', () => {
+    it('includes every message of the thread in order', async () => {
+      const result = await getGmailPrompt(service(), 'summarize_thread', { threadId: 'thread1' });
+
+      expect(gmailService.getThread).toHaveBeenCalledWith('thread1');
+      expect(result.description).toBe('Summarize "Project plan"');
+      const body = text(result);
+      expect(body).toContain('(2 message(s), oldest first');
+      expect(body).toContain('Attachments: plan.pdf');
+      expect(body.indexOf('Can we ship on Friday?')).toBeLessThan(body.indexOf('Friday works.'));
+    });
+  });
+
+  it('rejects unknown prompts', async () => {
+    await expect(getGmailPrompt(service(), 'write_poem')).rejects.toThrow(/Unknown prompt: write_poem/);
+  });
+});
@@ -0,0 +1,265 @@
+import { ErrorCode, GetPromptResult, McpError, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { Email, GmailService, Thread } from './gmail.service.js';
+import { errorStatus } from './request.queue.js';
+
+/**
+ * MCP prompts for the common email workflows. Clients that surface prompts (often as
+ * slash commands) get the workflow instructions together with the emails they apply
+ * to, so the tool descriptions only need to say what each tool does.
+ *
+ * Each prompt fetches its data through GmailService and returns a single user message.
+ */
+
+export type GmailPromptOptions = {
+  /** Extra draft_reply instructions contributed by extensions (e.g. the Space Edition opt-in). */
+  draftGuidance?: string[];
+  /**
+   * Tools the server exposes, so a prompt only suggests tools the model can call (e.g.
+   * none that change the mailbox in read-only mode). Undefined assumes every tool.
+   */
+  toolNames?: Set<string>;
+};
+
+/** Unread emails listed by triage_inbox when maxEmails isn't given. */
+const DEFAULT_TRIAGE_EMAILS = 25;
+const MAX_TRIAGE_EMAILS = 100;
+
+const DEFAULT_TONE = 'friendly and professional';
+
+export const PROMPTS: Prompt[] = [
+  {
+    name: 'triage_inbox',
+    title: 'Triage inbox',
+    description:
+      'Sorts the unread inbox into what needs a reply, what needs action and what can be archived, and proposes next steps.',
+    arguments: [
+      {
+        name: 'maxEmails',
+        description: `Optional: how many of the newest unread emails to include. Default ${DEFAULT_TRIAGE_EMAILS}, max ${MAX_TRIAGE_EMAILS}.`,
+      },
+    ],
+  },
+  {
+    name: 'draft_reply',
+    title: 'Draft a reply',
+    description: 'Drafts a reply to an email in the requested tone and saves it as a Gmail draft.',
+    arguments: [
+      { name: 'emailId', description: 'The ID of the email to reply to', required: true },
+      {
+        name: 'tone',
+        description: `Optional: tone of the reply, e.g. "formal" or "brief". Default "${DEFAULT_TONE}".`,
+      },
+    ],
+  },
+  {
+    name: 'summarize_thread',
+    title: 'Summarize a thread',
+    description: 'Summarizes a conversation: key points, decisions, open questions and action items.',
+    arguments: [
+      { name: 'threadId', description: 'The ID of the thread to summarize', required: true },
+    ],
+  },
+];
+
+function requireArgument(args: Record<string, string> | undefined, name: string): string {
+  const value = args?.[name]?.trim();
+  if (!value) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing required argument: ${name}`);
+  }
+  return value;
+}
+
+function readMaxEmails(args: Record<string, string> | undefined): number {
+  const raw = args?.maxEmails?.trim();
+  if (!raw) return DEFAULT_TRIAGE_EMAILS;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new McpError(ErrorCode.InvalidParams, 'maxEmails must be a positive whole number');
+  }
+  return Math.min(value, MAX_TRIAGE_EMAILS);
+}
+
+/** Turns a 404 from Gmail into an InvalidParams error naming the missing item. */
+async function fetchOrNotFound<T>(what: string, fetch: () => Promise<T>): Promise<T> {
+  try {
+    return await fetch();
+  } catch (error) {
+    if (errorStatus(error) === 404) {
+      throw new McpError(ErrorCode.InvalidParams, `${what} not found`);
+    }
+    throw error;
+  }
+}
+
+function formatEmail(email: Email): string {
+  return [
+    `Email ID: ${email.emailId}`,
+    `Thread ID: ${email.threadId}`,
+    `From: ${email.sender}`,
+    `Subject: ${email.subject || '(no subject)'}`,
+    '',
+    email.body,
+  ].join('\n');
+}
+
+function formatThread(thread: Thread): string {
+  const messages = thread.messages.map((message, i) =>
+    [
+      `--- Message ${i + 1} of ${thread.messages.length} ---`,
+      `Email ID: ${message.emailId}`,
+      `From: ${message.sender}`,
+      `Date: ${message.date}`,
+      ...(message.attachments.length
+        ? [`Attachments: ${message.attachments.map((a) => a.filename).join(', ')}`]
+        : []),
+      '',
+      message.body,
+    ].join('\n')
+  );
+  return [`Subject: ${thread.subject || '(no subject)'}`, '', ...messages].join('\n');
+}
+
+function hasTool(options: GmailPromptOptions, name: string): boolean {
+  return !options.toolNames || options.toolNames.has(name);
+}
+
+/** The closing instruction of triage_inbox, naming only the tools that are exposed. */
+function triageNextSteps(options: GmailPromptOptions): string {
+  const cleanup = ['mark_as_read', 'archive_emails'].filter((name) => hasTool(options, name));
+  const steps = [
+    ...(hasTool(options, 'create_draft_reply') ? ['draft replies with create_draft_reply'] : []),
+    ...(cleanup.length ? [`${cleanup.join(' or ')} for the rest`] : []),
+  ];
+  if (steps.length === 0) {
+    return 'Then propose next steps for me to take myself; you cannot change the mailbox.';
+  }
+  return `Then propose next steps, but do not change anything until I confirm: ${steps.join(', and ')}.`;
+}
+
+function userMessage(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
+
+async function triageInbox(
+  gmailService: GmailService,
+  args: Record<string, string> | undefined,
+  options: GmailPromptOptions
+): Promise<GetPromptResult> {
+  const maxEmails = readMaxEmails(args);
+  const { emails, resultSizeEstimate } = await gmailService.searchEmails('is:unread', {
+    labelIds: ['INBOX'],
+    maxResults: maxEmails,
+    bodyFormat: 'snippet',
+  });
+
+  if (emails.length === 0) {
+    return userMessage(
+      'Triage the unread inbox',
+      'My inbox has no unread emails. Confirm that briefly.'
+    );
+  }
+
+  const more =
+    resultSizeEstimate > emails.length
+      ? ` (about ${resultSizeEstimate} unread in total; these are the newest)`
+      : '';
+
+  return userMessage(
+    'Triage the unread inbox',
+    [
+      `Help me triage my inbox. Here are ${emails.length} unread emails${more}, shown as Gmail snippets:`,
+      '',
+      emails.map(formatEmail).join('\n\n'),
+      '',
+      'Sort them into:',
+      '1. Needs a reply from me',
+      '2. Needs some other action (a task, a decision, a deadline)',
+      '3. FYI only',
+      '4. Can be archived (newsletters, notifications, automated mail)',
+      '',
+      'For each email give the sender, subject and a one-line reason. Use get_thread if a snippet is not enough to decide.',
+      triageNextSteps(options),
+    ].join('\n')
+  );
+}
+
+async function draftReply(
+  gmailService: GmailService,
+  args: Record<string, string> | undefined,
+  options: GmailPromptOptions
+): Promise<GetPromptResult> {
+  const emailId = requireArgument(args, 'emailId');
+  const tone = args?.tone?.trim() || DEFAULT_TONE;
+  const email = await fetchOrNotFound(`Email ${emailId}`, () => gmailService.getEmail(emailId));
+
+  const guidance = options.draftGuidance?.length ? ['', ...options.draftGuidance] : [];
+
+  return userMessage(
+    `Draft a ${tone} reply to "${email.subject || '(no subject)'}"`,
+    [
+      `Draft a reply to this email. Tone: ${tone}.`,
+      '',
+      formatEmail(email),
+      '',
+      'Answer what the sender asked, and do not invent facts, dates or commitments; leave a clear placeholder where you need information from me.',
+      'Use get_thread with the thread ID if earlier messages matter.',
+      ...guidance,
+      '',
+      `Then call create_draft_reply with emailId "${email.emailId}" to save the draft. Do not stop before the draft is created.`,
+      'To revise it afterwards, use update_draft instead of creating another draft.',
+    ].join('\n')
+  );
+}
+
+async function summarizeThread(
+  gmailService: GmailService,
+  args: Record<string, string> | undefined
+): Promise<GetPromptResult> {
+  const threadId = requireArgument(args, 'threadId');
+  const thread = await fetchOrNotFound(`Thread ${threadId}`, () =>
+    gmailService.getThread(threadId)
+  );
+
+  return userMessage(
+    `Summarize "${thread.subject || '(no subject)'}"`,
+    [
+      `Summarize this email conversation (${thread.messages.length} message(s), oldest first, quoted history removed):`,
+      '',
+      formatThread(thread),
+      '',
+      'Include:',
+      '- A two or three sentence overview',
+      '- Key points and decisions, with who made them',
+      '- Open questions',
+      '- Action items, with owners and deadlines where stated',
+    ].join('\n')
+  );
+}
+
+/**
+ * prompts/get for any of the PROMPTS.
+ *
+ * @throws McpError (InvalidParams) for unknown prompts, missing arguments and
+ *   emails or threads that don't exist
+ */
+export async function getGmailPrompt(
+  gmailService: GmailService,
+  name: string,
+  args?: Record<string, string>,
+  options: GmailPromptOptions = {}
+): Promise<GetPromptResult> {
+  switch (name) {
+    case 'triage_inbox':
+      return triageInbox(gmailService, args, options);
+    case 'draft_reply':
+      return draftReply(gmailService, args, options);
+    case 'summarize_thread':
+      return summarizeThread(gmailService, args);
+    default:
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+}
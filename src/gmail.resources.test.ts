@@ -0,0 +1,161 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  buildResourceUri,
+  listGmailResources,
+  parseResourceUri,
+  readGmailResource,
+} from './gmail.resources';
+import { GmailService } from './gmail.service';
+
+describe('gmail resources', () => {
+  let gmailService: jest.Mocked<
+    Pick<GmailService, 'getEmail' | 'getThread' | 'listLabels' | 'searchEmails'>
+  >;
+
+  beforeEach(() => {
+    gmailService = {
+      getEmail: jest.fn(),
+      getThread: jest.fn(),
+      listLabels: jest.fn().mockResolvedValue([
+        { id: 'INBOX', name: 'INBOX', type: 'system' },
+        { id: 'Label_1', name: 'Clients/Acme', type: 'user' },
+      ]),
+      searchEmails: jest.fn().mockResolvedValue({
+        emails: [
+          {
+            sender: 'alice@example.com',
+            subject: 'Lunch?',
+            body: 'Are you free on Friday?',
+            emailId: 'msg1',
+            threadId: 'thread1',
+          },
+        ],
+        nextPageToken: 'page2',
+        resultSizeEstimate: 80,
+      }),
+    };
+  });
+
+  const service = () => gmailService as unknown as GmailService;
+
+  describe('parseResourceUri', () => {
+    it('parses message, thread and URL-encoded label URIs', () => {
+      expect(parseResourceUri('gmail://message/msg1')).toEqual({ kind: 'message', id: 'msg1' });
+      expect(parseResourceUri('gmail://thread/t1')).toEqual({ kind: 'thread', id: 't1' });
+      expect(parseResourceUri('gmail://label/Clients%2FAcme')).toEqual({
+        kind: 'label',
+        id: 'Clients/Acme',
+      });
+      expect(buildResourceUri('label', 'Clients/Acme')).toBe('gmail://label/Clients%2FAcme');
+    });
+
+    it.each(['gmail://draft/1', 'gmail://message/', 'https://mail.google.com', 'gmail://label/%E0'])(
+      'rejects %s',
+      (uri) => {
+        expect(() => parseResourceUri(uri)).toThrow(McpError);
+      }
+    );
+  });
+
+  describe('listGmailResources', () => {
+    it('lists labels and the first page of the inbox', async () => {
+      const result = await listGmailResources(service());
+
+      expect(gmailService.searchEmails).toHaveBeenCalledWith('', {
+        labelIds: ['INBOX'],
+        maxResults: 50,
+        pageToken: undefined,
+        bodyFormat: 'snippet',
+      });
+      expect(result).toEqual({
+        resources: [
+          { uri: 'gmail://label/INBOX', name: 'Label: INBOX', mimeType: 'application/json' },
+          {
+            uri: 'gmail://label/Clients%2FAcme',
+            name: 'Label: Clients/Acme',
+            mimeType: 'application/json',
+          },
+          {
+            uri: 'gmail://message/msg1',
+            name: 'Lunch?',
+            description: 'From alice@example.com: Are you free on Friday?',
+            mimeType: 'application/json',
+          },
+        ],
+        nextCursor: 'page2',
+      });
+    });
+
+    it('lists only messages on later pages', async () => {
+      const result = await listGmailResources(service(), 'page2');
+
+      expect(gmailService.listLabels).not.toHaveBeenCalled();
+      expect(result.resources.map((r) => r.uri)).toEqual(['gmail://message/msg1']);
+    });
+  });
+
+  describe('readGmailResource', () => {
+    it('reads a message as JSON', async () => {
+      gmailService.getEmail.mockResolvedValue({
+        sender: 'alice@example.com',
+        subject: 'Lunch?',
+        body: 'Are you free on Friday?',
+        emailId: 'msg1',
+        threadId: 'thread1',
+        attachments: [],
+      });
+
+      const result = await readGmailResource(service(), 'gmail://message/msg1');
+
+      expect(gmailService.getEmail).toHaveBeenCalledWith('msg1');
+      expect(result.contents).toHaveLength(1);
+      expect(result.contents[0]).toMatchObject({
+        uri: 'gmail://message/msg1',
+        mimeType: 'application/json',
+      });
+      expect(JSON.parse(result.contents[0].text)).toMatchObject({ emailId: 'msg1' });
+    });
+
+    it('reads a thread', async () => {
+      gmailService.getThread.mockResolvedValue({ threadId: 't1', subject: 'Lunch?', messages: [] });
+
+      const result = await readGmailResource(service(), 'gmail://thread/t1');
+
+      expect(gmailService.getThread).toHaveBeenCalledWith('t1');
+      expect(JSON.parse(result.contents[0].text)).toEqual({
+        threadId: 't1',
+        subject: 'Lunch?',
+        messages: [],
+      });
+    });
+
+    it('reads a label by name, case-insensitively', async () => {
+      await readGmailResource(service(), 'gmail://label/clients%2Facme');
+
+      expect(gmailService.searchEmails).toHaveBeenCalledWith('', {
+        labelIds: ['Label_1'],
+        maxResults: 20,
+        bodyFormat: 'snippet',
+      });
+    });
+
+    it('reports unknown labels and missing messages as resource not found', async () => {
+      await expect(readGmailResource(service(), 'gmail://label/Nope')).rejects.toMatchObject({
+        code: -32002,
+      });
+
+      gmailService.getEmail.mockRejectedValue(
+        Object.assign(new Error('Requested entity was not found.'), { code: 404 })
+      );
+      await expect(readGmailResource(service(), 'gmail://message/gone')).rejects.toMatchObject({
+        code: -32002,
+      });
+    });
+
+    it('rejects unsupported URIs as invalid params', async () => {
+      await expect(readGmailResource(service(), 'gmail://draft/1')).rejects.toMatchObject({
+        code: ErrorCode.InvalidParams,
+      });
+    });
+  });
+});
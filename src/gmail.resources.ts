@@ -0,0 +1,161 @@
+import { ErrorCode, McpError, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { GmailService } from './gmail.service.js';
+import { errorStatus } from './request.queue.js';
+
+/**
+ * Exposes emails, threads and labels as MCP resources, so clients that attach context
+ * as resources can pin a message or thread without a tool round-trip.
+ *
+ * URIs:
+ * - gmail://message/{id}  - one email with its full body
+ * - gmail://thread/{id}   - a whole conversation, oldest message first
+ * - gmail://label/{name}  - the most recent emails carrying a label (name URL-encoded)
+ *
+ * Contents are JSON, in the same shape the matching tools return.
+ */
+
+export type GmailResourceKind = 'message' | 'thread' | 'label';
+
+/** JSON-RPC code the MCP spec uses for a resource that doesn't exist. */
+const RESOURCE_NOT_FOUND = -32002;
+
+const RESOURCE_MIME_TYPE = 'application/json';
+
+/** Inbox messages listed per resources/list page. */
+const LIST_PAGE_SIZE = 50;
+
+/** Emails included when reading a label resource. */
+const LABEL_PAGE_SIZE = 20;
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'gmail://message/{id}',
+    name: 'Email',
+    description: 'A single email with sender, subject, full decoded body and attachment metadata.',
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+  {
+    uriTemplate: 'gmail://thread/{id}',
+    name: 'Email thread',
+    description:
+      'A whole conversation, oldest message first, with quoted history and signatures stripped.',
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+  {
+    uriTemplate: 'gmail://label/{name}',
+    name: 'Label',
+    description: `The ${LABEL_PAGE_SIZE} most recent emails with a label (e.g. gmail://label/INBOX or gmail://label/Clients%2FAcme).`,
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+];
+
+/**
+ * Parses a gmail:// resource URI.
+ *
+ * @throws McpError (InvalidParams) for URIs that don't match a template
+ */
+export function parseResourceUri(uri: string): { kind: GmailResourceKind; id: string } {
+  const match = uri.match(/^gmail:\/\/(message|thread|label)\/([^/?#]+)$/);
+  if (!match) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unsupported resource URI: ${uri}. Expected gmail://message/{id}, gmail://thread/{id} or gmail://label/{name}.`
+    );
+  }
+
+  let id: string;
+  try {
+    id = decodeURIComponent(match[2]);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Malformed resource URI: ${uri}`);
+  }
+  return { kind: match[1] as GmailResourceKind, id };
+}
+
+function resourceNotFound(uri: string): McpError {
+  return new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+}
+
+export function buildResourceUri(kind: GmailResourceKind, id: string): string {
+  return `gmail://${kind}/${encodeURIComponent(id)}`;
+}
+
+/**
+ * resources/list: the inbox, newest first, one page per cursor. The first page also
+ * lists the mailbox's labels.
+ */
+export async function listGmailResources(
+  gmailService: GmailService,
+  cursor?: string
+): Promise<{ resources: Resource[]; nextCursor?: string }> {
+  const [page, labels] = await Promise.all([
+    gmailService.searchEmails('', {
+      labelIds: ['INBOX'],
+      maxResults: LIST_PAGE_SIZE,
+      pageToken: cursor,
+      bodyFormat: 'snippet',
+    }),
+    cursor ? Promise.resolve([]) : gmailService.listLabels(),
+  ]);
+
+  const labelResources: Resource[] = labels.map((label) => ({
+    uri: buildResourceUri('label', label.name),
+    name: `Label: ${label.name}`,
+    mimeType: RESOURCE_MIME_TYPE,
+  }));
+
+  const messageResources: Resource[] = page.emails.map((email) => ({
+    uri: buildResourceUri('message', email.emailId),
+    name: email.subject || '(no subject)',
+    description: `From ${email.sender}: ${email.body}`,
+    mimeType: RESOURCE_MIME_TYPE,
+  }));
+
+  return {
+    resources: [...labelResources, ...messageResources],
+    ...(page.nextPageToken && { nextCursor: page.nextPageToken }),
+  };
+}
+
+/**
+ * resources/read for any gmail:// URI.
+ */
+export async function readGmailResource(
+  gmailService: GmailService,
+  uri: string
+): Promise<{ contents: Array<{ uri: string; mimeType: string; text: string }> }> {
+  const { kind, id } = parseResourceUri(uri);
+
+  let data: unknown;
+  try {
+    switch (kind) {
+      case 'message':
+        data = await gmailService.getEmail(id);
+        break;
+      case 'thread':
+        data = await gmailService.getThread(id);
+        break;
+      case 'label': {
+        const labels = await gmailService.listLabels();
+        const label = labels.find(
+          (l) => l.id === id || l.name.toLowerCase() === id.toLowerCase()
+        );
+        if (!label) throw resourceNotFound(uri);
+
+        data = await gmailService.searchEmails('', {
+          labelIds: [label.id],
+          maxResults: LABEL_PAGE_SIZE,
+          bodyFormat: 'snippet',
+        });
+        break;
+      }
+    }
+  } catch (error) {
+    if (errorStatus(error) === 404) throw resourceNotFound(uri);
+    throw error;
+  }
+
+  return {
+    contents: [{ uri, mimeType: RESOURCE_MIME_TYPE, text: JSON.stringify(data, null, 2) }],
+  };
+}
@@ -1,5 +1,6 @@
-import { GmailService } from './gmail.service';
+import { GmailService, MAILBOX_ACTIONS } from './gmail.service';
 import { gmail_v1 } from 'googleapis';
+import { InsufficientScopeError, PolicyDeniedError } from './errors';
 
 // Mock googleapis
 jest.mock('googleapis', () => ({
@@ -26,12 +27,37 @@ describe('GmailService', () => {
     const { google } = require('googleapis');
     mockGmailClient = {
       users: {
+        getProfile: jest.fn().mockResolvedValue({ data: { emailAddress: 'me@example.com' } }),
+        settings: {
+          sendAs: {
+            list: jest.fn().mockResolvedValue({ data: { sendAs: [] } }),
+          },
+        },
         messages: {
           list: jest.fn(),
           get: jest.fn(),
+          modify: jest.fn(),
+          batchModify: jest.fn(),
+          attachments: {
+            get: jest.fn(),
+          },
+        },
+        labels: {
+          list: jest.fn(),
+        },
+        history: {
+          list: jest.fn(),
+        },
+        threads: {
+          get: jest.fn(),
         },
         drafts: {
           create: jest.fn(),
+          list: jest.fn(),
+          get: jest.fn(),
+          update: jest.fn(),
+          delete: jest.fn(),
+          send: jest.fn(),
         },
       },
     };
@@ -52,14 +78,14 @@ describe('GmailService', () => {
       });
 
       const result = await gmailService.getUnreadEmails();
-      expect(result).toEqual([]);
+      expect(result).toEqual({ emails: [] });
       expect(mockGmailClient.users.messages.list).toHaveBeenCalledWith({
         userId: 'me',
         q: 'is:unread',
       });
     });
 
-    it('should return unread emails with sender, subject, body, and IDs', async () => {
+    it('should return unread email snippets with sender, subject, body, and IDs', async () => {
       const mockMessageList = {
         data: {
           messages: [
@@ -102,17 +128,17 @@ describe('GmailService', () => {
         .mockResolvedValueOnce(mockMessage1)
         .mockResolvedValueOnce(mockMessage2);
 
-      const result = await gmailService.getUnreadEmails();
+      const { emails } = await gmailService.getUnreadEmails({ bodyFormat: 'snippet' });
 
-      expect(result).toHaveLength(2);
-      expect(result[0]).toEqual({
+      expect(emails).toHaveLength(2);
+      expect(emails[0]).toEqual({
         sender: 'sender@example.com',
         subject: 'Test Subject 1',
         body: 'This is a test email snippet...',
         emailId: 'msg1',
         threadId: 'thread1',
       });
-      expect(result[1]).toEqual({
+      expect(emails[1]).toEqual({
         sender: 'another@example.com',
         subject: 'Test Subject 2',
         body: 'Another email snippet...',
@@ -156,9 +182,136 @@ describe('GmailService', () => {
       mockGmailClient.users.messages.list.mockResolvedValue(mockMessageList);
       mockGmailClient.users.messages.get.mockResolvedValue(mockMessage);
 
-      const result = await gmailService.getUnreadEmails();
+      const { emails } = await gmailService.getUnreadEmails();
+
+      expect(emails[0].body).toBe('Full email body content');
+    });
+
+    it('should decode the text/plain part of a multipart message by default', async () => {
+      mockGmailClient.users.messages.list.mockResolvedValue({
+        data: { messages: [{ id: 'msg1', threadId: 'thread1' }] },
+      });
+      mockGmailClient.users.messages.get.mockResolvedValue({
+        data: {
+          id: 'msg1',
+          threadId: 'thread1',
+          snippet: 'Short preview',
+          payload: {
+            mimeType: 'multipart/alternative',
+            headers: [
+              { name: 'From', value: 'sender@example.com' },
+              { name: 'Subject', value: 'Test Subject' },
+            ],
+            parts: [
+              {
+                mimeType: 'text/plain',
+                headers: [{ name: 'Content-Type', value: 'text/plain; charset="UTF-8"' }],
+                body: { data: Buffer.from('Hello from the full body').toString('base64url') },
+              },
+              {
+                mimeType: 'text/html',
+                headers: [{ name: 'Content-Type', value: 'text/html; charset="UTF-8"' }],
+                body: { data: Buffer.from('<p>Hello from HTML</p>').toString('base64url') },
+              },
+            ],
+          },
+        },
+      });
+
+      const { emails } = await gmailService.getUnreadEmails();
 
-      expect(result[0].body).toBeDefined();
+      expect(emails[0].body).toBe('Hello from the full body');
+      expect(emails[0].attachments).toEqual([]);
+      expect(mockGmailClient.users.messages.get).toHaveBeenCalledWith({
+        userId: 'me',
+        id: 'msg1',
+        format: 'full',
+      });
+    });
+
+    it('should list attachment metadata for each email', async () => {
+      mockGmailClient.users.messages.list.mockResolvedValue({
+        data: { messages: [{ id: 'msg1', threadId: 'thread1' }] },
+      });
+      mockGmailClient.users.messages.get.mockResolvedValue({
+        data: {
+          id: 'msg1',
+          threadId: 'thread1',
+          payload: {
+            mimeType: 'multipart/mixed',
+            headers: [{ name: 'From', value: 'sender@example.com' }],
+            parts: [
+              {
+                mimeType: 'text/plain',
+                body: { data: Buffer.from('See attached').toString('base64url') },
+              },
+              {
+                mimeType: 'application/pdf',
+                filename: 'report.pdf',
+                body: { attachmentId: 'att1', size: 2048 },
+              },
+            ],
+          },
+        },
+      });
+
+      const { emails } = await gmailService.getUnreadEmails();
+
+      expect(emails[0].body).toBe('See attached');
+      expect(emails[0].attachments).toEqual([
+        { filename: 'report.pdf', mimeType: 'application/pdf', size: 2048, attachmentId: 'att1' },
+      ]);
+    });
+
+    it('should truncate bodies to maxBodyChars when bodyFormat is truncated', async () => {
+      mockGmailClient.users.messages.list.mockResolvedValue({
+        data: { messages: [{ id: 'msg1', threadId: 'thread1' }] },
+      });
+      mockGmailClient.users.messages.get.mockResolvedValue({
+        data: {
+          id: 'msg1',
+          threadId: 'thread1',
+          payload: {
+            mimeType: 'text/plain',
+            headers: [{ name: 'From', value: 'sender@example.com' }],
+            body: { data: Buffer.from('a'.repeat(50)).toString('base64url') },
+          },
+        },
+      });
+
+      const { emails: truncated } = await gmailService.getUnreadEmails({
+        bodyFormat: 'truncated',
+        maxBodyChars: 10,
+      });
+      expect(truncated[0].body).toBe(`${'a'.repeat(9)}…`);
+
+      const { emails: full } = await gmailService.getUnreadEmails({
+        bodyFormat: 'full',
+        maxBodyChars: 10,
+      });
+      expect(full[0].body).toBe('a'.repeat(50));
+    });
+
+    it('should follow nextPageToken until all unread messages are listed', async () => {
+      mockGmailClient.users.messages.list
+        .mockResolvedValueOnce({
+          data: { messages: [{ id: 'msg1' }], nextPageToken: 'page2' },
+        })
+        .mockResolvedValueOnce({
+          data: { messages: [{ id: 'msg2' }] },
+        });
+      mockGmailClient.users.messages.get.mockImplementation(async ({ id }: { id: string }) => ({
+        data: { id, threadId: `t-${id}`, snippet: id, payload: { headers: [] } },
+      }));
+
+      const { emails } = await gmailService.getUnreadEmails({ bodyFormat: 'snippet' });
+
+      expect(emails.map((e) => e.emailId)).toEqual(['msg1', 'msg2']);
+      expect(mockGmailClient.users.messages.list).toHaveBeenNthCalledWith(2, {
+        userId: 'me',
+        q: 'is:unread',
+        pageToken: 'page2',
+      });
     });
 
     it('should handle API errors gracefully', async () => {
@@ -168,6 +321,341 @@ describe('GmailService', () => {
 
       await expect(gmailService.getUnreadEmails()).rejects.toThrow('API Error');
     });
+
+    it('should return the emails that loaded and report the ones that failed', async () => {
+      mockGmailClient.users.messages.list.mockResolvedValue({
+        data: { messages: [{ id: 'msg1' }, { id: 'msg2' }, { id: 'msg3' }] },
+      });
+      mockGmailClient.users.messages.get.mockImplementation(async ({ id }: { id: string }) => {
+        if (id === 'msg2') throw new Error('Invalid id value');
+        if (id === 'msg3') {
+          throw Object.assign(new Error('Requested entity was not found.'), { code: 404 });
+        }
+        return { data: { id, threadId: 'thread1', snippet: 'Hi', payload: { headers: [] } } };
+      });
+
+      const result = await gmailService.getUnreadEmails({ bodyFormat: 'snippet' });
+
+      expect(result.emails.map((e) => e.emailId)).toEqual(['msg1']);
+      expect(result.errors).toEqual([{ id: 'msg2', error: 'Invalid id value' }]);
+    });
+
+    it('should retry rate-limited requests through the request queue', async () => {
+      const sleep = jest.fn().mockResolvedValue(undefined);
+      gmailService = new GmailService(mockGmailClient, { requests: { sleep } });
+      mockGmailClient.users.messages.list
+        .mockRejectedValueOnce(
+          Object.assign(new Error('Too Many Requests'), {
+            code: 429,
+            response: { status: 429, headers: { 'retry-after': '2' } },
+          })
+        )
+        .mockResolvedValueOnce({ data: { messages: [] } });
+
+      await expect(gmailService.getUnreadEmails()).resolves.toEqual({ emails: [] });
+      expect(sleep).toHaveBeenCalledWith(2000);
+      expect(mockGmailClient.users.messages.list).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getEmail', () => {
+    it('should return one email with its full body', async () => {
+      mockGmailClient.users.messages.get.mockResolvedValue({
+        data: {
+          id: 'msg1',
+          threadId: 'thread1',
+          snippet: 'Hello…',
+          payload: {
+            mimeType: 'text/plain',
+            headers: [
+              { name: 'From', value: 'alice@example.com' },
+              { name: 'Subject', value: 'Hello' },
+            ],
+            body: { data: Buffer.from('x'.repeat(3000)).toString('base64url') },
+          },
+        },
+      });
+
+      const email = await gmailService.getEmail('msg1');
+
+      expect(mockGmailClient.users.messages.get).toHaveBeenCalledWith({
+        userId: 'me',
+        id: 'msg1',
+        format: 'full',
+      });
+      expect(email).toMatchObject({ emailId: 'msg1', sender: 'alice@example.com', subject: 'Hello' });
+      expect(email.body).toHaveLength(3000);
+    });
+  });
+
+  describe('listMessageIds', () => {
+    it('should return message IDs from a single messages.list call', async () => {
+      mockGmailClient.users.messages.list.mockResolvedValue({
+        data: { messages: [{ id: 'msg1' }, { id: 'msg2' }, {}] },
+      });
+
+      const ids = await gmailService.listMessageIds('is:unread in:inbox', { maxResults: 100 });
+
+      expect(mockGmailClient.users.messages.list).toHaveBeenCalledWith({
+        userId: 'me',
+        q: 'is:unread in:inbox',
+        maxResults: 100,
+      });
+      expect(ids).toEqual(['msg1', 'msg2']);
+      expect(mockGmailClient.users.messages.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('searchEmails', () => {
+    it('should pass query, paging and label filters to messages.list', async () => {
+      mockGmailClient.users.messages.list.mockResolvedValue({
+        data: {
+          messages: [{ id: 'msg1', threadId: 'thread1' }],
+          nextPageToken: 'next-page',
+          resultSizeEstimate: 42,
+        },
+      });
+      mockGmailClient.users.messages.get.mockResolvedValue({
+        data: {
+          id: 'msg1',
+          threadId: 'thread1',
+          snippet: 'Invoice attached',
+          payload: {
+            headers: [
+              { name: 'From', value: 'billing@example.com' },
+              { name: 'Subject', value: 'Invoice' },
+            ],
+          },
+        },
+      });
+
+      const result = await gmailService.searchEmails('from:billing@example.com', {
+        maxResults: 10,
+        pageToken: 'page-1',
+        labelIds: ['Label_1'],
+        bodyFormat: 'snippet',
+      });
+
+      expect(mockGmailClient.users.messages.list).toHaveBeenCalledWith({
+        userId: 'me',
+        q: 'from:billing@example.com',
+        maxResults: 10,
+        pageToken: 'page-1',
+        labelIds: ['Label_1'],
+        includeSpamTrash: false,
+      });
+      expect(result).toEqual({
+        emails: [
+          {
+            sender: 'billing@example.com',
+            subject: 'Invoice',
+            body: 'Invoice attached',
+            emailId: 'msg1',
+            threadId: 'thread1',
+          },
+        ],
+        nextPageToken: 'next-page',
+        resultSizeEstimate: 42,
+      });
+    });
+
+    it('should omit nextPageToken on the last page and clamp maxResults', async () => {
+      mockGmailClient.users.messages.list.mockResolvedValue({ data: {} });
+
+      const result = await gmailService.searchEmails('label:support', {
+        maxResults: 10_000,
+        includeSpamTrash: true,
+      });
+
+      expect(result).toEqual({ emails: [], resultSizeEstimate: 0 });
+      expect(mockGmailClient.users.messages.list).toHaveBeenCalledWith({
+        userId: 'me',
+        q: 'label:support',
+        maxResults: 500,
+        includeSpamTrash: true,
+      });
+      expect(mockGmailClient.users.messages.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getThread', () => {
+    it('should return every message oldest first with quotes stripped', async () => {
+      mockGmailClient.users.threads.get.mockResolvedValue({
+        data: {
+          id: 'thread1',
+          messages: [
+            {
+              id: 'msg2',
+              internalDate: '2000',
+              payload: {
+                mimeType: 'text/plain',
+                headers: [
+                  { name: 'From', value: 'Bob <bob@example.com>' },
+                  { name: 'Date', value: 'Tue, 6 Jan 2026 09:00:00 +0000' },
+                  { name: 'Subject', value: 'Re: Lunch?' },
+                ],
+                body: {
+                  data: Buffer.from(
+                    'Tuesday works.\n\nOn Mon, Jan 5, 2026 Alice wrote:\n> Lunch on Tuesday?'
+                  ).toString('base64url'),
+                },
+              },
+            },
+            {
+              id: 'msg1',
+              internalDate: '1000',
+              payload: {
+                mimeType: 'text/plain',
+                headers: [
+                  { name: 'From', value: 'Alice <alice@example.com>' },
+                  { name: 'Date', value: 'Mon, 5 Jan 2026 09:00:00 +0000' },
+                  { name: 'Subject', value: 'Lunch?' },
+                ],
+                body: {
+                  data: Buffer.from('Lunch on Tuesday?\n-- \nAlice').toString('base64url'),
+                },
+              },
+            },
+          ],
+        },
+      });
+
+      const result = await gmailService.getThread('thread1');
+
+      expect(mockGmailClient.users.threads.get).toHaveBeenCalledWith({
+        userId: 'me',
+        id: 'thread1',
+        format: 'full',
+      });
+      expect(result).toEqual({
+        threadId: 'thread1',
+        subject: 'Lunch?',
+        messages: [
+          {
+            emailId: 'msg1',
+            sender: 'Alice <alice@example.com>',
+            date: 'Mon, 5 Jan 2026 09:00:00 +0000',
+            subject: 'Lunch?',
+            body: 'Lunch on Tuesday?',
+            attachments: [],
+          },
+          {
+            emailId: 'msg2',
+            sender: 'Bob <bob@example.com>',
+            date: 'Tue, 6 Jan 2026 09:00:00 +0000',
+            subject: 'Re: Lunch?',
+            body: 'Tuesday works.',
+            attachments: [],
+          },
+        ],
+      });
+    });
+
+    it('should keep quoted history when stripQuotes is false', async () => {
+      const body = 'Tuesday works.\n\nOn Mon, Jan 5, 2026 Alice wrote:\n> Lunch?';
+      mockGmailClient.users.threads.get.mockResolvedValue({
+        data: {
+          id: 'thread1',
+          messages: [
+            {
+              id: 'msg1',
+              payload: {
+                mimeType: 'text/plain',
+                headers: [],
+                body: { data: Buffer.from(body).toString('base64url') },
+              },
+            },
+          ],
+        },
+      });
+
+      const result = await gmailService.getThread('thread1', { stripQuotes: false });
+
+      expect(result.messages[0].body).toBe(body);
+    });
+  });
+
+  describe('getAttachment', () => {
+    function messageWithAttachment(part: Record<string, unknown>) {
+      return {
+        data: {
+          id: 'msg1',
+          payload: {
+            mimeType: 'multipart/mixed',
+            parts: [{ mimeType: 'text/plain', body: { data: '' } }, part],
+          },
+        },
+      };
+    }
+
+    it('should return text for text-like attachments', async () => {
+      mockGmailClient.users.messages.get.mockResolvedValue(
+        messageWithAttachment({
+          mimeType: 'text/csv',
+          filename: 'data.csv',
+          headers: [{ name: 'Content-Type', value: 'text/csv; charset=utf-8' }],
+          body: { attachmentId: 'att1', size: 12 },
+        })
+      );
+      mockGmailClient.users.messages.attachments.get.mockResolvedValue({
+        data: { data: Buffer.from('a,b\n1,2\n').toString('base64url'), size: 8 },
+      });
+
+      const result = await gmailService.getAttachment('msg1', 'att1');
+
+      expect(mockGmailClient.users.messages.attachments.get).toHaveBeenCalledWith({
+        userId: 'me',
+        messageId: 'msg1',
+        id: 'att1',
+      });
+      expect(result).toEqual({
+        emailId: 'msg1',
+        attachmentId: 'att1',
+        filename: 'data.csv',
+        mimeType: 'text/csv',
+        size: 8,
+        kind: 'text',
+        text: 'a,b\n1,2\n',
+        truncated: false,
+      });
+    });
+
+    it('should return base64 for binary attachments and match by filename', async () => {
+      mockGmailClient.users.messages.get.mockResolvedValue(
+        messageWithAttachment({
+          mimeType: 'application/pdf',
+          filename: 'report.pdf',
+          body: { attachmentId: 'reissued-id', size: 4 },
+        })
+      );
+      mockGmailClient.users.messages.attachments.get.mockResolvedValue({
+        data: { data: Buffer.from([1, 2, 3, 4]).toString('base64url'), size: 4 },
+      });
+
+      const result = await gmailService.getAttachment('msg1', 'att1', { filename: 'report.pdf' });
+
+      expect(result).toMatchObject({
+        filename: 'report.pdf',
+        mimeType: 'application/pdf',
+        kind: 'base64',
+        data: Buffer.from([1, 2, 3, 4]).toString('base64'),
+      });
+    });
+
+    it('should omit binary attachments larger than maxBytes without downloading them', async () => {
+      mockGmailClient.users.messages.get.mockResolvedValue(
+        messageWithAttachment({
+          mimeType: 'image/png',
+          filename: 'photo.png',
+          body: { attachmentId: 'att1', size: 5000 },
+        })
+      );
+
+      const result = await gmailService.getAttachment('msg1', 'att1', { maxBytes: 1000 });
+
+      expect(result.kind).toBe('omitted');
+      expect(mockGmailClient.users.messages.attachments.get).not.toHaveBeenCalled();
+    });
   });
 
   describe('createDraftReply', () => {
@@ -235,6 +723,44 @@ describe('GmailService', () => {
       expect(rawMessage).toContain('Content-Type: text/plain; charset=utf-8');
     });
 
+    it('refuses recipients the recipient rules disallow, before writing a draft', async () => {
+      mockGmailClient.users.messages.get.mockResolvedValue({
+        data: {
+          id: 'msg1',
+          threadId: 'thread1',
+          payload: {
+            headers: [
+              { name: 'From', value: 'Alice <alice@partner.example>' },
+              { name: 'Cc', value: 'bob@elsewhere.example, ceo@partner.example' },
+              { name: 'Subject', value: 'Original Subject' },
+            ],
+          },
+        },
+      });
+      const restricted = new GmailService(mockGmailClient, {
+        recipientRules: {
+          allowedDomains: ['partner.example'],
+          blockedAddresses: ['ceo@partner.example'],
+        },
+      });
+
+      const error = await restricted
+        .createDraftReply('msg1', 'Reply', { replyMode: 'all' })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(PolicyDeniedError);
+      expect(error.message).toContain('bob@elsewhere.example, ceo@partner.example');
+      expect(mockGmailClient.users.drafts.create).not.toHaveBeenCalled();
+
+      mockGmailClient.users.drafts.create.mockResolvedValue({
+        data: { id: 'draft1', message: { id: 'draft-msg1', threadId: 'thread1' } },
+      });
+      await expect(restricted.createDraftReply('msg1', 'Reply')).resolves.toEqual({
+        draftId: 'draft1',
+        threadId: 'thread1',
+      });
+    });
+
     it('should create an HTML draft when contentType is text/html', async () => {
       const mockOriginalMessage = {
         data: {
@@ -268,6 +794,153 @@ describe('GmailService', () => {
 
       expect(rawMessage).toContain('Content-Type: text/html; charset=utf-8');
       expect(rawMessage).toContain('<b>Hello</b>');
+      expect(rawMessage).toContain('Content-Type: multipart/alternative; boundary=');
+      expect(rawMessage).toMatch(/Content-Type: text\/plain; charset=utf-8\r\nContent-Transfer-Encoding: 7bit\r\n\r\nHello\r\n/);
+    });
+
+    it('should use the given textBody as the plain-text alternative', async () => {
+      mockGmailClient.users.messages.get.mockResolvedValue({
+        data: {
+          id: 'msg1',
+          threadId: 'thread1',
+          payload: { headers: [{ name: 'From', value: 'original@example.com' }] },
+        },
+      });
+      mockGmailClient.users.drafts.create.mockResolvedValue({
+        data: { id: 'draft1', message: { id: 'draft-msg1', threadId: 'thread1' } },
+      });
+
+      await gmailService.createDraftReply('msg1', '<p>Rich</p>', {
+        contentType: 'text/html',
+        textBody: 'Hand-written text',
+      });
+
+      const createCall = mockGmailClient.users.drafts.create.mock.calls[0][0];
+      const rawMessage = Buffer.from(createCall.requestBody.message.raw, 'base64url').toString();
+      expect(rawMessage).toContain('\r\n\r\nHand-written text\r\n');
+    });
+
+    it('should create a multipart/mixed draft when attachments are given', async () => {
+      mockGmailClient.users.messages.get.mockResolvedValue({
+        data: {
+          id: 'msg1',
+          threadId: 'thread1',
+          payload: {
+            headers: [
+              { name: 'From', value: 'original@example.com' },
+              { name: 'Subject', value: 'Original Subject' },
+            ],
+          },
+        },
+      });
+      mockGmailClient.users.drafts.create.mockResolvedValue({
+        data: { id: 'draft1', message: { id: 'draft-msg1', threadId: 'thread1' } },
+      });
+
+      await gmailService.createDraftReply('msg1', 'Report attached', {
+        attachments: [
+          { filename: 'report.pdf', mimeType: 'application/pdf', content: Buffer.from('%PDF') },
+        ],
+      });
+
+      const createCall = mockGmailClient.users.drafts.create.mock.calls[0][0];
+      const rawMessage = Buffer.from(createCall.requestBody.message.raw, 'base64url').toString();
+
+      expect(rawMessage).toContain('Content-Type: multipart/mixed; boundary=');
+      expect(rawMessage).toContain('Content-Type: text/plain; charset=utf-8');
+      expect(rawMessage).toContain('Report attached');
+      expect(rawMessage).toContain('Content-Disposition: attachment; filename="report.pdf"');
+      expect(rawMessage).toContain(Buffer.from('%PDF').toString('base64'));
+    });
+
+    it('should extend the References chain and read Message-Id in any casing', async () => {
+      mockGmailClient.users.messages.get.mockResolvedValue({
+        data: {
+          id: 'msg2',
+          threadId: 'thread1',
+          payload: {
+            headers: [
+              { name: 'From', value: 'original@example.com' },
+              { name: 'Subject', value: 'AW: Re[2]: Original Subject' },
+              { name: 'Message-Id', value: '<second@example.com>' },
+              { name: 'References', value: '<root@example.com> <first@example.com>' },
+            ],
+          },
+        },
+      });
+      mockGmailClient.users.drafts.create.mockResolvedValue({
+        data: { id: 'draft1', message: { id: 'draft-msg1', threadId: 'thread1' } },
+      });
+
+      await gmailService.createDraftReply('msg2', 'Reply text');
+
+      const createCall = mockGmailClient.users.drafts.create.mock.calls[0][0];
+      const rawMessage = Buffer.from(createCall.requestBody.message.raw, 'base64url').toString();
+      expect(rawMessage).toContain('Subject: Re: Original Subject\r\n');
+      expect(rawMessage).toContain('In-Reply-To: <second@example.com>\r\n');
+      expect(rawMessage).toContain(
+        'References: <root@example.com> <first@example.com> <second@example.com>\r\n'
+      );
+    });
+
+    it('should reply to Reply-To in sender mode', async () => {
+      mockGmailClient.users.messages.get.mockResolvedValue({
+        data: {
+          id: 'msg1',
+          threadId: 'thread1',
+          payload: {
+            headers: [
+              { name: 'From', value: 'Alice <alice@example.com>' },
+              { name: 'Reply-To', value: 'support@example.com' },
+              { name: 'To', value: 'me@example.com, bob@example.com' },
+              { name: 'Subject', value: 'Question' },
+            ],
+          },
+        },
+      });
+      mockGmailClient.users.drafts.create.mockResolvedValue({
+        data: { id: 'draft1', message: { id: 'draft-msg1', threadId: 'thread1' } },
+      });
+
+      await gmailService.createDraftReply('msg1', 'Answer');
+
+      const createCall = mockGmailClient.users.drafts.create.mock.calls[0][0];
+      const rawMessage = Buffer.from(createCall.requestBody.message.raw, 'base64url').toString();
+      expect(rawMessage).toMatch(/^To: support@example\.com\r\n/);
+      expect(rawMessage).not.toContain('Cc:');
+    });
+
+    it('should include To and Cc recipients minus own addresses in reply-all mode', async () => {
+      mockGmailClient.users.settings.sendAs.list.mockResolvedValue({
+        data: { sendAs: [{ sendAsEmail: 'Me@Example.com' }, { sendAsEmail: 'alias@example.com' }] },
+      });
+      mockGmailClient.users.messages.get.mockResolvedValue({
+        data: {
+          id: 'msg1',
+          threadId: 'thread1',
+          payload: {
+            headers: [
+              { name: 'From', value: '"Doe, Jane" <jane@example.com>' },
+              { name: 'To', value: 'me@example.com, "Smith, Bob" <bob@example.com>' },
+              { name: 'Cc', value: 'alias@example.com, carol@example.com, jane@example.com' },
+              { name: 'Subject', value: 'Plans' },
+            ],
+          },
+        },
+      });
+      mockGmailClient.users.drafts.create.mockResolvedValue({
+        data: { id: 'draft1', message: { id: 'draft-msg1', threadId: 'thread1' } },
+      });
+
+      await gmailService.createDraftReply('msg1', 'Sounds good', { replyMode: 'all' });
+
+      const createCall = mockGmailClient.users.drafts.create.mock.calls[0][0];
+      const rawMessage = Buffer.from(createCall.requestBody.message.raw, 'base64url').toString();
+      expect(rawMessage).toContain(
+        'To: "Doe, Jane" <jane@example.com>, "Smith, Bob" <bob@example.com>\r\n'
+      );
+      expect(rawMessage).toContain('Cc: carol@example.com\r\n');
+      expect(mockGmailClient.users.getProfile).toHaveBeenCalledWith({ userId: 'me' });
     });
 
     it('should handle missing original message', async () => {
@@ -340,5 +1013,443 @@ describe('GmailService', () => {
       expect(rawMessage).toMatch(/Subject: Re: Original Subject/);
     });
   });
-});
 
+  describe('draft lifecycle', () => {
+    function decodeRaw(raw: string): string {
+      return Buffer.from(raw, 'base64url').toString();
+    }
+
+    const existingDraft = {
+      data: {
+        id: 'draft1',
+        message: {
+          id: 'draft-msg1',
+          threadId: 'thread1',
+          snippet: 'First version',
+          payload: {
+            mimeType: 'multipart/mixed',
+            headers: [
+              { name: 'To', value: '"Doe, Jane" <jane@example.com>' },
+              { name: 'Cc', value: 'bob@example.com' },
+              { name: 'Subject', value: 'Re: Plans' },
+              { name: 'In-Reply-To', value: '<parent@example.com>' },
+              { name: 'References', value: '<root@example.com> <parent@example.com>' },
+            ],
+            parts: [
+              {
+                mimeType: 'text/plain',
+                body: { data: Buffer.from('First version').toString('base64url') },
+              },
+              {
+                mimeType: 'application/pdf',
+                filename: 'plan.pdf',
+                body: { attachmentId: 'att1', size: 4 },
+              },
+            ],
+          },
+        },
+      },
+    };
+
+    it('should list drafts with their recipients and subject', async () => {
+      mockGmailClient.users.drafts.list.mockResolvedValue({
+        data: { drafts: [{ id: 'draft1' }], nextPageToken: 'next' },
+      });
+      mockGmailClient.users.drafts.get.mockResolvedValue(existingDraft);
+
+      const result = await gmailService.listDrafts({ query: 'to:jane@example.com' });
+
+      expect(mockGmailClient.users.drafts.list).toHaveBeenCalledWith({
+        userId: 'me',
+        maxResults: 20,
+        q: 'to:jane@example.com',
+      });
+      expect(mockGmailClient.users.drafts.get).toHaveBeenCalledWith({
+        userId: 'me',
+        id: 'draft1',
+        format: 'metadata',
+      });
+      expect(result).toEqual({
+        drafts: [
+          {
+            draftId: 'draft1',
+            emailId: 'draft-msg1',
+            threadId: 'thread1',
+            to: '"Doe, Jane" <jane@example.com>',
+            subject: 'Re: Plans',
+            snippet: 'First version',
+          },
+        ],
+        nextPageToken: 'next',
+      });
+    });
+
+    it('should get a draft with its body and attachments', async () => {
+      mockGmailClient.users.drafts.get.mockResolvedValue(existingDraft);
+
+      const result = await gmailService.getDraft('draft1');
+
+      expect(result).toMatchObject({
+        draftId: 'draft1',
+        cc: 'bob@example.com',
+        body: 'First version',
+        attachments: [
+          { filename: 'plan.pdf', mimeType: 'application/pdf', size: 4, attachmentId: 'att1' },
+        ],
+      });
+    });
+
+    it('should update a draft in place, keeping threading headers and attachments', async () => {
+      mockGmailClient.users.drafts.get.mockResolvedValue(existingDraft);
+      mockGmailClient.users.messages.attachments.get.mockResolvedValue({
+        data: { data: Buffer.from('%PDF').toString('base64url') },
+      });
+      mockGmailClient.users.drafts.update.mockResolvedValue({
+        data: { id: 'draft1', message: { id: 'draft-msg2', threadId: 'thread1' } },
+      });
+
+      const result = await gmailService.updateDraft('draft1', 'Second version');
+
+      expect(result).toEqual({ draftId: 'draft1', threadId: 'thread1' });
+      expect(mockGmailClient.users.messages.attachments.get).toHaveBeenCalledWith({
+        userId: 'me',
+        messageId: 'draft-msg1',
+        id: 'att1',
+      });
+
+      const updateCall = mockGmailClient.users.drafts.update.mock.calls[0][0];
+      expect(updateCall).toMatchObject({
+        userId: 'me',
+        id: 'draft1',
+        requestBody: { id: 'draft1', message: { threadId: 'thread1' } },
+      });
+
+      const rawMessage = decodeRaw(updateCall.requestBody.message.raw);
+      expect(rawMessage).toContain('To: "Doe, Jane" <jane@example.com>\r\n');
+      expect(rawMessage).toContain('Cc: bob@example.com\r\n');
+      expect(rawMessage).toContain('Subject: Re: Plans\r\n');
+      expect(rawMessage).toContain('In-Reply-To: <parent@example.com>\r\n');
+      expect(rawMessage).toContain('References: <root@example.com> <parent@example.com>\r\n');
+      expect(rawMessage).toContain('Second version');
+      expect(rawMessage).not.toContain('First version');
+      expect(rawMessage).toContain('filename="plan.pdf"');
+    });
+
+    it('should replace attachments when new ones are given', async () => {
+      mockGmailClient.users.drafts.get.mockResolvedValue(existingDraft);
+      mockGmailClient.users.drafts.update.mockResolvedValue({ data: { id: 'draft1' } });
+
+      await gmailService.updateDraft('draft1', 'Second version', {
+        attachments: [{ filename: 'new.csv', mimeType: 'text/csv', content: Buffer.from('a') }],
+      });
+
+      expect(mockGmailClient.users.messages.attachments.get).not.toHaveBeenCalled();
+      const rawMessage = decodeRaw(
+        mockGmailClient.users.drafts.update.mock.calls[0][0].requestBody.message.raw
+      );
+      expect(rawMessage).toContain('filename="new.csv"');
+      expect(rawMessage).not.toContain('plan.pdf');
+    });
+
+    it('should delete a draft', async () => {
+      mockGmailClient.users.drafts.delete.mockResolvedValue({ data: '' });
+
+      await expect(gmailService.deleteDraft('draft1')).resolves.toEqual({ draftId: 'draft1' });
+      expect(mockGmailClient.users.drafts.delete).toHaveBeenCalledWith({
+        userId: 'me',
+        id: 'draft1',
+      });
+    });
+
+    it('should hash the raw draft message so changes can be detected', async () => {
+      mockGmailClient.users.drafts.get
+        .mockResolvedValueOnce({ data: { id: 'draft1', message: { raw: 'VmVyc2lvbiAx' } } })
+        .mockResolvedValueOnce({ data: { id: 'draft1', message: { raw: 'VmVyc2lvbiAx' } } })
+        .mockResolvedValueOnce({ data: { id: 'draft1', message: { raw: 'VmVyc2lvbiAy' } } });
+
+      const first = await gmailService.getDraftContentHash('draft1');
+      const same = await gmailService.getDraftContentHash('draft1');
+      const changed = await gmailService.getDraftContentHash('draft1');
+
+      expect(mockGmailClient.users.drafts.get).toHaveBeenCalledWith({
+        userId: 'me',
+        id: 'draft1',
+        format: 'raw',
+      });
+      expect(first).toMatch(/^[0-9a-f]{64}$/);
+      expect(same).toBe(first);
+      expect(changed).not.toBe(first);
+    });
+
+    it('should send a draft', async () => {
+      mockGmailClient.users.drafts.send.mockResolvedValue({
+        data: { id: 'sent1', threadId: 'thread1' },
+      });
+
+      const result = await gmailService.sendDraft('draft1');
+
+      expect(mockGmailClient.users.drafts.send).toHaveBeenCalledWith({
+        userId: 'me',
+        requestBody: { id: 'draft1' },
+      });
+      expect(result).toEqual({ emailId: 'sent1', threadId: 'thread1' });
+    });
+
+    it('should refuse to send a draft addressed to a blocked recipient', async () => {
+      mockGmailClient.users.drafts.get.mockResolvedValue({
+        data: {
+          id: 'draft1',
+          message: {
+            payload: {
+              headers: [
+                { name: 'To', value: 'jane@example.com' },
+                { name: 'Bcc', value: 'CEO@example.com' },
+              ],
+            },
+          },
+        },
+      });
+      const restricted = new GmailService(mockGmailClient, {
+        recipientRules: { allowedDomains: [], blockedAddresses: ['ceo@example.com'] },
+      });
+
+      const error = await restricted.sendDraft('draft1').catch((e) => e);
+
+      expect(error).toBeInstanceOf(PolicyDeniedError);
+      expect(error.message).toContain('sending to CEO@example.com');
+      expect(mockGmailClient.users.drafts.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('labels and mailbox actions', () => {
+    beforeEach(() => {
+      mockGmailClient.users.labels.list.mockResolvedValue({
+        data: {
+          labels: [
+            { id: 'Label_2', name: 'Receipts', type: 'user' },
+            { id: 'INBOX', name: 'INBOX', type: 'system' },
+            { id: 'Label_1', name: 'Clients/Acme', type: 'user' },
+            { id: 'UNREAD', name: 'UNREAD', type: 'system' },
+          ],
+        },
+      });
+    });
+
+    it('should list system labels first, then user labels by name', async () => {
+      const labels = await gmailService.listLabels();
+
+      expect(labels.map((l) => l.id)).toEqual(['INBOX', 'UNREAD', 'Label_1', 'Label_2']);
+      expect(labels[2]).toEqual({ id: 'Label_1', name: 'Clients/Acme', type: 'user' });
+    });
+
+    it('should resolve label names case-insensitively and accept IDs', async () => {
+      await expect(
+        gmailService.resolveLabelIds(['receipts', 'Label_1', 'INBOX'])
+      ).resolves.toEqual(['Label_2', 'Label_1', 'INBOX']);
+    });
+
+    it('should report unknown labels with the available names', async () => {
+      await expect(gmailService.resolveLabelIds(['Invoices'])).rejects.toThrow(
+        'Unknown label(s): Invoices. Available labels: INBOX, UNREAD, Clients/Acme, Receipts'
+      );
+    });
+
+    it('should use messages.modify for a single email', async () => {
+      mockGmailClient.users.messages.modify.mockResolvedValue({ data: {} });
+
+      const result = await gmailService.modifyEmails(['msg1'], MAILBOX_ACTIONS.markRead);
+
+      expect(mockGmailClient.users.messages.modify).toHaveBeenCalledWith({
+        userId: 'me',
+        id: 'msg1',
+        requestBody: { addLabelIds: [], removeLabelIds: ['UNREAD'] },
+      });
+      expect(result).toEqual({ emailIds: ['msg1'], addLabelIds: [], removeLabelIds: ['UNREAD'] });
+    });
+
+    it('should use batchModify in chunks of 1000 for several emails', async () => {
+      mockGmailClient.users.messages.batchModify.mockResolvedValue({ data: '' });
+      const ids = Array.from({ length: 1500 }, (_, i) => `msg${i}`);
+
+      await gmailService.modifyEmails(ids, MAILBOX_ACTIONS.archive);
+
+      const calls = mockGmailClient.users.messages.batchModify.mock.calls;
+      expect(calls).toHaveLength(2);
+      expect(calls[0][0].requestBody.ids).toHaveLength(1000);
+      expect(calls[1][0].requestBody).toEqual({
+        ids: ids.slice(1000),
+        addLabelIds: [],
+        removeLabelIds: ['INBOX'],
+      });
+      expect(mockGmailClient.users.messages.modify).not.toHaveBeenCalled();
+    });
+
+    it('should reject calls without emails or label changes', async () => {
+      await expect(gmailService.modifyEmails([], MAILBOX_ACTIONS.star)).rejects.toThrow(
+        'At least one email ID is required'
+      );
+      await expect(gmailService.modifyEmails(['msg1'], {})).rejects.toThrow('No label changes given');
+    });
+
+    it('should explain how to fix a token missing the gmail.modify scope', async () => {
+      mockGmailClient.users.messages.modify.mockRejectedValue(
+        Object.assign(new Error('Request had insufficient authentication scopes.'), { code: 403 })
+      );
+
+      const error = await gmailService.modifyEmails(['msg1'], MAILBOX_ACTIONS.star).catch((e) => e);
+
+      expect(error).toBeInstanceOf(InsufficientScopeError);
+      expect(error.message).toMatch(
+        /missing the https:\/\/www\.googleapis\.com\/auth\/gmail\.modify scope/
+      );
+      expect(error.remediation).toMatch(/npm run auth/);
+    });
+
+    it('should pass other errors through unchanged', async () => {
+      mockGmailClient.users.messages.modify.mockRejectedValue(new Error('Not Found'));
+
+      await expect(gmailService.modifyEmails(['msg1'], MAILBOX_ACTIONS.star)).rejects.toThrow(
+        'Not Found'
+      );
+    });
+  });
+
+  describe('getChangesSince', () => {
+    const message = (id: string, subject: string) => ({
+      data: {
+        id,
+        threadId: `thread-${id}`,
+        snippet: subject,
+        payload: {
+          headers: [
+            { name: 'From', value: 'alice@example.com' },
+            { name: 'Subject', value: subject },
+          ],
+        },
+      },
+    });
+
+    it('should report new messages, net label changes and deletions', async () => {
+      mockGmailClient.users.history.list
+        .mockResolvedValueOnce({
+          data: {
+            historyId: '150',
+            nextPageToken: 'page2',
+            history: [
+              { messagesAdded: [{ message: { id: 'new1', threadId: 't1', labelIds: ['INBOX'] } }] },
+              { messagesAdded: [{ message: { id: 'draft1', threadId: 't2', labelIds: ['DRAFT'] } }] },
+              { labelsRemoved: [{ message: { id: 'old1', threadId: 't3' }, labelIds: ['UNREAD'] }] },
+              { labelsAdded: [{ message: { id: 'old2', threadId: 't4' }, labelIds: ['STARRED'] }] },
+            ],
+          },
+        })
+        .mockResolvedValueOnce({
+          data: {
+            historyId: '160',
+            history: [
+              { labelsRemoved: [{ message: { id: 'old2', threadId: 't4' }, labelIds: ['STARRED'] }] },
+              { labelsAdded: [{ message: { id: 'new1', threadId: 't1' }, labelIds: ['STARRED'] }] },
+              { messagesAdded: [{ message: { id: 'gone1', threadId: 't5', labelIds: ['INBOX'] } }] },
+              { messagesDeleted: [{ message: { id: 'gone1', threadId: 't5' } }] },
+              { messagesDeleted: [{ message: { id: 'old3', threadId: 't6' } }] },
+            ],
+          },
+        });
+      mockGmailClient.users.messages.get.mockResolvedValue(message('new1', 'Hello'));
+
+      const result = await gmailService.getChangesSince('100', { bodyFormat: 'snippet' });
+
+      expect(mockGmailClient.users.history.list).toHaveBeenNthCalledWith(1, {
+        userId: 'me',
+        startHistoryId: '100',
+        historyTypes: ['messageAdded', 'messageDeleted', 'labelAdded', 'labelRemoved'],
+      });
+      expect(mockGmailClient.users.history.list).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ pageToken: 'page2' })
+      );
+      expect(mockGmailClient.users.messages.get).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({
+        historyId: '160',
+        fullResync: false,
+        messagesAdded: [
+          {
+            sender: 'alice@example.com',
+            subject: 'Hello',
+            body: 'Hello',
+            emailId: 'new1',
+            threadId: 'thread-new1',
+          },
+        ],
+        labelChanges: [
+          { emailId: 'old1', threadId: 't3', labelsAdded: [], labelsRemoved: ['UNREAD'] },
+        ],
+        messagesDeleted: [{ emailId: 'old3', threadId: 't6' }],
+      });
+    });
+
+    it('should skip new messages that were deleted before they could be fetched', async () => {
+      mockGmailClient.users.history.list.mockResolvedValue({
+        data: {
+          historyId: '110',
+          history: [{ messagesAdded: [{ message: { id: 'new1', threadId: 't1' } }] }],
+        },
+      });
+      mockGmailClient.users.messages.get.mockRejectedValue(
+        Object.assign(new Error('Requested entity was not found.'), { code: 404 })
+      );
+
+      const result = await gmailService.getChangesSince('100');
+
+      expect(result.messagesAdded).toEqual([]);
+      expect(result.historyId).toBe('110');
+    });
+
+    it('should fall back to a full resync when the cursor has expired', async () => {
+      mockGmailClient.users.history.list.mockRejectedValue(
+        Object.assign(new Error('Requested entity was not found.'), { code: 404 })
+      );
+      mockGmailClient.users.getProfile.mockResolvedValue({
+        data: { emailAddress: 'me@example.com', historyId: '999' },
+      });
+      mockGmailClient.users.messages.list.mockResolvedValue({
+        data: { messages: [{ id: 'unread1' }] },
+      });
+      mockGmailClient.users.messages.get.mockResolvedValue(message('unread1', 'Still unread'));
+
+      const result = await gmailService.getChangesSince('1', { bodyFormat: 'snippet' });
+
+      expect(result).toMatchObject({
+        historyId: '999',
+        fullResync: true,
+        messagesAdded: [{ emailId: 'unread1', subject: 'Still unread' }],
+        labelChanges: [],
+        messagesDeleted: [],
+      });
+    });
+
+    it('should do a full resync when there is no cursor yet', async () => {
+      mockGmailClient.users.getProfile.mockResolvedValue({
+        data: { emailAddress: 'me@example.com', historyId: '500' },
+      });
+      mockGmailClient.users.messages.list.mockResolvedValue({ data: {} });
+
+      const result = await gmailService.getChangesSince(undefined);
+
+      expect(mockGmailClient.users.history.list).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        historyId: '500',
+        fullResync: true,
+        messagesAdded: [],
+        labelChanges: [],
+        messagesDeleted: [],
+      });
+    });
+
+    it('should rethrow errors other than an expired cursor', async () => {
+      mockGmailClient.users.history.list.mockRejectedValue(new Error('Backend Error'));
+
+      await expect(gmailService.getChangesSince('100')).rejects.toThrow('Backend Error');
+    });
+  });
+});
@@ -1,70 +1,610 @@
+import { createHash } from 'crypto';
 import { gmail_v1 } from 'googleapis';
+import {
+  AttachmentInfo,
+  decodeBase64Url,
+  decodeCharset,
+  extractBody,
+  findAttachmentPart,
+  getHeader,
+  isTextLikeAttachment,
+  listAttachments,
+  parseCharset,
+} from './mime.parser.js';
+import { assertRecipientsAllowed, RecipientRules } from './access.policy.js';
+import { parseAddressList } from './address.parser.js';
+import { InsufficientScopeError, isInsufficientScopeError, ValidationError } from './errors.js';
+import { computeReplyRecipients, ReplyMode } from './reply.recipients.js';
+import { buildReferences, buildReplySubject } from './reply.threading.js';
+import {
+  buildMimeMessage,
+  encodeBase64Url,
+  HeaderValue,
+  MimeAttachment,
+} from './message.builder.js';
+import { stripQuotedText } from './quote.stripper.js';
+import { buildTextAlternative } from './text.alternative.js';
+import { errorStatus, RequestQueue, RequestQueueOptions } from './request.queue.js';
+
+export type BodyFormat = 'snippet' | 'full' | 'truncated';
+
+export type Email = {
+  sender: string;
+  subject: string;
+  body: string;
+  emailId: string;
+  threadId: string;
+  /** Present unless bodyFormat is 'snippet' (the metadata-only fetch has no MIME parts). */
+  attachments?: AttachmentInfo[];
+};
+
+export type ThreadMessage = {
+  emailId: string;
+  sender: string;
+  date: string;
+  subject: string;
+  body: string;
+  attachments: AttachmentInfo[];
+};
+
+export type Thread = {
+  threadId: string;
+  subject: string;
+  messages: ThreadMessage[];
+};
+
+export type AttachmentContent = AttachmentInfo & {
+  emailId: string;
+} & (
+    | { kind: 'text'; text: string; truncated: boolean }
+    | { kind: 'base64'; data: string }
+    | { kind: 'omitted'; reason: string }
+  );
+
+export type DraftSummary = {
+  draftId: string;
+  emailId: string;
+  threadId: string;
+  to: string;
+  subject: string;
+  snippet: string;
+};
+
+export type Draft = DraftSummary & {
+  cc: string;
+  /** Only present when the draft has Bcc recipients. */
+  bcc?: string;
+  /** Plain-text body (the text/plain part, or the HTML converted to text). */
+  body: string;
+  /** The HTML part, for HTML drafts. */
+  html?: string;
+  attachments: AttachmentInfo[];
+};
+
+export type DraftContentOptions = {
+  /**
+   * Defaults to 'text/plain'. Use 'text/html' to create an HTML draft.
+   * Note: remote images referenced in HTML may be blocked by the email client
+   * until the user chooses to display images.
+   */
+  contentType?: 'text/plain' | 'text/html';
+  /**
+   * Plain-text alternative for an HTML draft. Defaults to a conversion of the HTML
+   * with links as footnotes. Ignored for text/plain drafts.
+   */
+  textBody?: string;
+  /** Files to attach. When present the draft is sent as multipart/mixed. */
+  attachments?: MimeAttachment[];
+};
+
+export type BodyOptions = {
+  /**
+   * 'snippet' returns Gmail's ~200 character preview, 'full' the decoded message text
+   * and 'truncated' (default) the decoded text cut at `maxBodyChars`.
+   */
+  bodyFormat?: BodyFormat;
+  /** Only used with bodyFormat 'truncated'. Defaults to 2000. */
+  maxBodyChars?: number;
+};
+
+/** An item that couldn't be fetched, reported next to the ones that could. */
+export type ItemError = {
+  id: string;
+  error: string;
+};
+
+export type Label = {
+  id: string;
+  name: string;
+  /** 'system' for built-in labels (INBOX, UNREAD, STARRED…), 'user' for the user's own. */
+  type: 'system' | 'user';
+};
+
+/** Label changes applied to messages; IDs as returned by listLabels. */
+export type LabelChange = {
+  addLabelIds?: string[];
+  removeLabelIds?: string[];
+};
+
+/** Common mailbox actions expressed as changes to Gmail's system labels. */
+export const MAILBOX_ACTIONS = {
+  markRead: { removeLabelIds: ['UNREAD'] },
+  markUnread: { addLabelIds: ['UNREAD'] },
+  archive: { removeLabelIds: ['INBOX'] },
+  star: { addLabelIds: ['STARRED'] },
+  unstar: { removeLabelIds: ['STARRED'] },
+} satisfies Record<string, LabelChange>;
+
+export type MailboxAction = keyof typeof MAILBOX_ACTIONS;
+
+export type LabelChangeEvent = {
+  emailId: string;
+  threadId: string;
+  labelsAdded: string[];
+  labelsRemoved: string[];
+};
+
+export type MailboxChanges = {
+  /** Cursor to pass to the next getChangesSince call. */
+  historyId: string;
+  /**
+   * True when there was no usable cursor (first run, or the cursor expired). The
+   * result is then a full listing: `messagesAdded` holds every unread email and the
+   * other lists are empty.
+   */
+  fullResync: boolean;
+  messagesAdded: Email[];
+  /** Net label changes per message (label IDs), excluding added and deleted messages. */
+  labelChanges: LabelChangeEvent[];
+  messagesDeleted: Array<{ emailId: string; threadId: string }>;
+  /** New messages that couldn't be fetched. Only present when something failed. */
+  errors?: ItemError[];
+};
+
+const DEFAULT_MAX_BODY_CHARS = 2000;
+const DEFAULT_SEARCH_PAGE_SIZE = 20;
+const DEFAULT_MAX_ATTACHMENT_BYTES = 1024 * 1024;
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_ATTACHMENT_TEXT_CHARS = 100_000;
+/** users.messages.batchModify accepts at most 1000 IDs per request. */
+const MAX_BATCH_MODIFY_IDS = 1000;
+
+const MODIFY_SCOPE = 'https://www.googleapis.com/auth/gmail.modify';
+
+function clampInt(value: number, min: number, max: number): number {
+  if (!Number.isFinite(value)) return min;
+  return Math.max(min, Math.min(max, Math.floor(value)));
+}
+
+function truncate(text: string, maxLen: number): string {
+  if (text.length <= maxLen) return text;
+  return `${text.slice(0, Math.max(0, maxLen - 1)).trimEnd()}…`;
+}
+
+function toDraftSummary(draft: gmail_v1.Schema$Draft): DraftSummary {
+  const headers = draft.message?.payload?.headers;
+  return {
+    draftId: draft.id!,
+    emailId: draft.message?.id ?? '',
+    threadId: draft.message?.threadId ?? '',
+    to: getHeader(headers, 'To'),
+    subject: getHeader(headers, 'Subject'),
+    snippet: draft.message?.snippet ?? '',
+  };
+}
+
+function toItemError(id: string, error: unknown): ItemError {
+  return { id, error: error instanceof Error ? error.message : String(error) };
+}
+
+function isNotFoundError(error: unknown): boolean {
+  return errorStatus(error) === 404;
+}
+
+/**
+ * Builds and base64url encodes a draft message. HTML drafts always carry a text/plain
+ * alternative for text-only clients.
+ */
+function encodeDraftMessage(
+  headers: Array<[string, HeaderValue]>,
+  body: string,
+  options?: DraftContentOptions
+): string {
+  const contentType = options?.contentType ?? 'text/plain';
+  const rawEmail = buildMimeMessage({
+    headers,
+    body,
+    contentType,
+    textAlternative:
+      contentType === 'text/html' ? options?.textBody ?? buildTextAlternative(body) : undefined,
+    attachments: options?.attachments,
+  });
+  return encodeBase64Url(rawEmail);
+}
+
+/**
+ * Renders a message body in the requested format. Falls back to Gmail's snippet when
+ * the payload has no readable text part (e.g. attachment-only messages).
+ */
+function formatBody(
+  msg: gmail_v1.Schema$Message,
+  bodyFormat: BodyFormat,
+  maxBodyChars: number
+): string {
+  const snippet = msg.snippet || '';
+  if (bodyFormat === 'snippet') return snippet;
+
+  const text = extractBody(msg.payload).text || snippet;
+  return bodyFormat === 'truncated' ? truncate(text, maxBodyChars) : text;
+}
 
 export class GmailService {
   private gmail: gmail_v1.Gmail;
+  private ownAddresses?: Promise<string[]>;
+  private replyPrefixes: string[];
+  private requests: RequestQueue;
+  private recipientRules?: RecipientRules;
 
-  constructor(gmailClient: gmail_v1.Gmail) {
+  constructor(
+    gmailClient: gmail_v1.Gmail,
+    options?: {
+      /** Extra reply prefixes to normalize, on top of DEFAULT_REPLY_PREFIXES. */
+      replyPrefixes?: string[];
+      /** Concurrency limit and retry/backoff settings for Gmail API calls. */
+      requests?: RequestQueueOptions;
+      /** Allowed domains and blocked addresses for draft reply recipients. */
+      recipientRules?: RecipientRules;
+    }
+  ) {
     this.gmail = gmailClient;
+    this.replyPrefixes = options?.replyPrefixes ?? [];
+    this.requests = new RequestQueue(options?.requests);
+    this.recipientRules = options?.recipientRules;
+  }
+
+  /**
+   * Runs a Gmail API call through the request queue (concurrency limit, retries with
+   * backoff). Every API call in this class goes through here.
+   */
+  private call<T>(request: () => Promise<T>, options?: { idempotent?: boolean }): Promise<T> {
+    return this.requests.run(request, options);
   }
 
   /**
    * Retrieves all unread emails from the Gmail account.
    * 
-   * 1. Uses Gmail API's messages.list with query "is:unread" to find unread message IDs
-   * 2. For each message ID, fetches message metadata (headers and snippet)
-   * 3. Extracts From, Subject headers and uses snippet as body
+   * 1. Uses Gmail API's messages.list with query "is:unread" to find unread message IDs,
+   *    following nextPageToken until every page has been read
+   * 2. For each message ID, fetches the message (metadata only for 'snippet', full payload otherwise)
+   * 3. Extracts From, Subject headers and the body in the requested format
    * 4. Returns structured data with sender, subject, body, emailId, and threadId
    */
-  async getUnreadEmails(): Promise<
-    Array<{
-      sender: string;
-      subject: string;
-      body: string;
-      emailId: string;
-      threadId: string;
-    }>
-  > {
-    // List all unread messages
-    const listResponse = await this.gmail.users.messages.list({
-      userId: 'me',
-      q: 'is:unread',
-    });
+  async getUnreadEmails(
+    options?: BodyOptions
+  ): Promise<{ emails: Email[]; errors?: ItemError[] }> {
+    const messageIds: string[] = [];
+    let pageToken: string | undefined;
+
+    // List all unread messages, page by page
+    do {
+      const listResponse = await this.call(() =>
+        this.gmail.users.messages.list({
+          userId: 'me',
+          q: 'is:unread',
+          ...(pageToken && { pageToken }),
+        })
+      );
 
-    const messages = listResponse.data.messages || [];
+      for (const message of listResponse.data.messages || []) {
+        if (message.id) messageIds.push(message.id);
+      }
+      pageToken = listResponse.data.nextPageToken || undefined;
+    } while (pageToken);
 
-    if (messages.length === 0) {
-      return [];
+    if (messageIds.length === 0) {
+      return { emails: [] };
     }
 
-    // Fetch full details for each message
-    const emailPromises = messages.map(async (message) => {
-      const messageResponse = await this.gmail.users.messages.get({
+    const { emails, errors } = await this.fetchEmails(messageIds, options);
+    return { emails, ...(errors.length && { errors }) };
+  }
+
+  /**
+   * Searches the mailbox using Gmail query syntax (e.g. "from:alice label:support newer_than:7d").
+   *
+   * Returns one page of results. Pass the returned nextPageToken back as `pageToken`
+   * to continue; it is absent on the last page.
+   */
+  async searchEmails(
+    query: string,
+    options?: BodyOptions & {
+      /** Page size. Defaults to 20, max 500 (Gmail's limit). */
+      maxResults?: number;
+      pageToken?: string;
+      /** Only return messages carrying all of these label IDs (e.g. "INBOX", "Label_123"). */
+      labelIds?: string[];
+      /** Include messages from SPAM and TRASH. Defaults to false. */
+      includeSpamTrash?: boolean;
+    }
+  ): Promise<{
+    emails: Email[];
+    nextPageToken?: string;
+    resultSizeEstimate: number;
+    errors?: ItemError[];
+  }> {
+    const maxResults = clampInt(options?.maxResults ?? DEFAULT_SEARCH_PAGE_SIZE, 1, 500);
+
+    const listResponse = await this.call(() =>
+      this.gmail.users.messages.list({
         userId: 'me',
-        id: message.id!,
-        format: 'metadata',
-        metadataHeaders: ['From', 'Subject'],
-      });
+        q: query,
+        maxResults,
+        ...(options?.pageToken && { pageToken: options.pageToken }),
+        ...(options?.labelIds?.length && { labelIds: options.labelIds }),
+        includeSpamTrash: options?.includeSpamTrash ?? false,
+      })
+    );
 
-      const msg = messageResponse.data;
-      const headers = msg.payload?.headers || [];
+    const messageIds = (listResponse.data.messages || [])
+      .map((m) => m.id)
+      .filter((id): id is string => Boolean(id));
+
+    const { emails, errors } = await this.fetchEmails(messageIds, options);
+
+    return {
+      emails,
+      ...(listResponse.data.nextPageToken && {
+        nextPageToken: listResponse.data.nextPageToken,
+      }),
+      resultSizeEstimate: listResponse.data.resultSizeEstimate ?? emails.length,
+      ...(errors.length && { errors }),
+    };
+  }
+
+  /**
+   * Lists the IDs of messages matching a query, newest first, without fetching them.
+   * One API call, so it is cheap enough to poll.
+   */
+  async listMessageIds(query: string, options?: { maxResults?: number }): Promise<string[]> {
+    const maxResults = clampInt(options?.maxResults ?? DEFAULT_SEARCH_PAGE_SIZE, 1, 500);
+
+    const listResponse = await this.call(() =>
+      this.gmail.users.messages.list({ userId: 'me', q: query, maxResults })
+    );
+
+    return (listResponse.data.messages || [])
+      .map((m) => m.id)
+      .filter((id): id is string => Boolean(id));
+  }
 
-      // Extract headers
-      const fromHeader = headers.find((h) => h.name === 'From')?.value || '';
-      const subjectHeader = headers.find((h) => h.name === 'Subject')?.value || '';
+  /**
+   * Retrieves a whole conversation with users.threads.get.
+   *
+   * Messages are returned oldest first. Each body is decoded from the MIME payload and,
+   * unless `stripQuotes` is false, has its quoted history and signature removed so the
+   * conversation reads without repetition.
+   */
+  async getThread(
+    threadId: string,
+    options?: {
+      /** Remove quoted replies and signatures from each message. Defaults to true. */
+      stripQuotes?: boolean;
+    }
+  ): Promise<Thread> {
+    const stripQuotes = options?.stripQuotes ?? true;
 
-      // Use snippet as body (Gmail provides this automatically)
-      const body = msg.snippet || '';
+    const threadResponse = await this.call(() =>
+      this.gmail.users.threads.get({
+        userId: 'me',
+        id: threadId,
+        format: 'full',
+      })
+    );
+
+    const messages = [...(threadResponse.data.messages || [])].sort(
+      (a, b) => Number(a.internalDate ?? 0) - Number(b.internalDate ?? 0)
+    );
+
+    const threadMessages: ThreadMessage[] = messages.map((msg) => {
+      const headers = msg.payload?.headers || [];
+      const text = extractBody(msg.payload).text || msg.snippet || '';
 
       return {
-        sender: fromHeader,
-        subject: subjectHeader,
-        body: body,
         emailId: msg.id!,
-        threadId: msg.threadId!,
+        sender: getHeader(headers, 'From'),
+        date: getHeader(headers, 'Date'),
+        subject: getHeader(headers, 'Subject'),
+        body: stripQuotes ? stripQuotedText(text) : text,
+        attachments: listAttachments(msg.payload),
       };
     });
 
-    return Promise.all(emailPromises);
+    return {
+      threadId: threadResponse.data.id || threadId,
+      subject: threadMessages[0]?.subject ?? '',
+      messages: threadMessages,
+    };
+  }
+
+  /**
+   * Downloads an attachment with users.messages.attachments.get.
+   *
+   * Text-like attachments (txt, csv, json, ics, eml, text/*) are decoded using their
+   * declared charset and returned as text. Anything else is returned as base64, unless
+   * it is larger than `maxBytes`, in which case the content is omitted.
+   */
+  async getAttachment(
+    emailId: string,
+    attachmentId: string,
+    options?: {
+      /** Helps locate the attachment if Gmail has re-issued its attachmentId. */
+      filename?: string;
+      /** Cap for base64 payloads. Defaults to 1 MiB, max 10 MiB. */
+      maxBytes?: number;
+      /** Cap for extracted text. Defaults to 100000 characters. */
+      maxTextChars?: number;
+    }
+  ): Promise<AttachmentContent> {
+    const maxBytes = clampInt(options?.maxBytes ?? DEFAULT_MAX_ATTACHMENT_BYTES, 1, MAX_ATTACHMENT_BYTES);
+    const maxTextChars = clampInt(
+      options?.maxTextChars ?? DEFAULT_MAX_ATTACHMENT_TEXT_CHARS,
+      1,
+      1_000_000
+    );
+
+    // The attachment body carries no filename or type, so read those from the message.
+    const messageResponse = await this.call(() =>
+      this.gmail.users.messages.get({
+        userId: 'me',
+        id: emailId,
+        format: 'full',
+      })
+    );
+    const part = findAttachmentPart(messageResponse.data.payload, attachmentId, options?.filename);
+
+    const filename = part?.filename || options?.filename || 'attachment';
+    const mimeType = part?.mimeType || 'application/octet-stream';
+    const textLike = isTextLikeAttachment(mimeType, filename);
+    const info = { emailId, attachmentId, filename, mimeType, size: part?.body?.size ?? 0 };
+
+    if (!textLike && info.size > maxBytes) {
+      return {
+        ...info,
+        kind: 'omitted',
+        reason: `Attachment is ${info.size} bytes, larger than the ${maxBytes} byte limit.`,
+      };
+    }
+
+    const attachmentResponse = await this.call(() =>
+      this.gmail.users.messages.attachments.get({
+        userId: 'me',
+        messageId: emailId,
+        id: attachmentId,
+      })
+    );
+
+    const bytes = decodeBase64Url(attachmentResponse.data.data || '');
+    const size = attachmentResponse.data.size ?? bytes.length;
+
+    if (textLike) {
+      const charset = parseCharset(getHeader(part?.headers, 'Content-Type'));
+      const text = decodeCharset(bytes, charset);
+      return {
+        ...info,
+        size,
+        kind: 'text',
+        text: truncate(text, maxTextChars),
+        truncated: text.length > maxTextChars,
+      };
+    }
+
+    if (bytes.length > maxBytes) {
+      return {
+        ...info,
+        size,
+        kind: 'omitted',
+        reason: `Attachment is ${bytes.length} bytes, larger than the ${maxBytes} byte limit.`,
+      };
+    }
+
+    return { ...info, size, kind: 'base64', data: bytes.toString('base64') };
+  }
+
+  /** Returns the address of the authorized mailbox. */
+  async getEmailAddress(): Promise<string> {
+    const profile = await this.call(() => this.gmail.users.getProfile({ userId: 'me' }));
+    return profile.data.emailAddress ?? '';
+  }
+
+  /**
+   * Returns the authenticated user's addresses: the profile address plus any send-as
+   * aliases. Cached for the lifetime of the service.
+   *
+   * The alias lookup is best-effort; if it fails, only the profile address is used.
+   */
+  async getOwnAddresses(): Promise<string[]> {
+    if (!this.ownAddresses) {
+      this.ownAddresses = this.fetchOwnAddresses().catch((error) => {
+        this.ownAddresses = undefined;
+        throw error;
+      });
+    }
+    return this.ownAddresses;
+  }
+
+  private async fetchOwnAddresses(): Promise<string[]> {
+    const profile = await this.call(() => this.gmail.users.getProfile({ userId: 'me' }));
+    const addresses = new Set<string>();
+    if (profile.data.emailAddress) addresses.add(profile.data.emailAddress.toLowerCase());
+
+    try {
+      const sendAs = await this.call(() => this.gmail.users.settings.sendAs.list({ userId: 'me' }));
+      for (const alias of sendAs.data.sendAs || []) {
+        if (alias.sendAsEmail) addresses.add(alias.sendAsEmail.toLowerCase());
+      }
+    } catch {
+      // Aliases are a refinement; the profile address is enough to proceed.
+    }
+
+    return [...addresses];
+  }
+
+  /**
+   * Retrieves a single email. Unlike the listing methods, the body defaults to 'full'.
+   */
+  async getEmail(emailId: string, options?: BodyOptions): Promise<Email> {
+    const bodyFormat = options?.bodyFormat ?? 'full';
+    const maxBodyChars = clampInt(options?.maxBodyChars ?? DEFAULT_MAX_BODY_CHARS, 1, 1_000_000);
+
+    const messageResponse = await this.call(() =>
+      bodyFormat === 'snippet'
+        ? this.gmail.users.messages.get({
+            userId: 'me',
+            id: emailId,
+            format: 'metadata',
+            metadataHeaders: ['From', 'Subject'],
+          })
+        : this.gmail.users.messages.get({
+            userId: 'me',
+            id: emailId,
+            format: 'full',
+          })
+    );
+
+    const msg = messageResponse.data;
+    const headers = msg.payload?.headers || [];
+
+    return {
+      sender: getHeader(headers, 'From'),
+      subject: getHeader(headers, 'Subject'),
+      body: formatBody(msg, bodyFormat, maxBodyChars),
+      emailId: msg.id!,
+      threadId: msg.threadId!,
+      ...(bodyFormat !== 'snippet' && { attachments: listAttachments(msg.payload) }),
+    };
+  }
+
+  /**
+   * Fetches each message and maps it to an Email with the body in the requested format
+   * (default 'truncated').
+   *
+   * A message that fails to load is reported in `errors` rather than failing the whole
+   * batch. Messages deleted since they were listed (404) are skipped.
+   */
+  private async fetchEmails(
+    messageIds: string[],
+    options?: BodyOptions
+  ): Promise<{ emails: Email[]; errors: ItemError[] }> {
+    const bodyOptions = { ...options, bodyFormat: options?.bodyFormat ?? 'truncated' };
+    const results = await this.requests.settle(messageIds, (id) => this.getEmail(id, bodyOptions));
+
+    const emails: Email[] = [];
+    const errors: ItemError[] = [];
+    for (const result of results) {
+      if (result.ok) emails.push(result.value);
+      else if (!isNotFoundError(result.error)) errors.push(toItemError(result.item, result.error));
+    }
+    return { emails, errors };
   }
 
   /**
@@ -73,90 +613,580 @@ export class GmailService {
    * 1. Fetches the original message to get threading information (threadId, Message-ID, Subject)
    * 2. Constructs a properly formatted email with:
    *    - In-Reply-To header pointing to original Message-ID
-   *    - References header for email threading
-   *    - Subject prefixed with "Re: " (if not already present)
-   *    - To field set to original sender
-   * 3. Encodes the email in RFC 2822 format and base64url encodes it
+   *    - References header: the original's References chain plus its Message-ID
+   *    - Subject with any reply prefixes ("RE:", "Aw:", "Re[2]:") normalized to a single "Re: "
+   *    - To set to Reply-To (or From); in 'all' mode also the other To recipients, with Cc kept
+   *    - The user's own addresses (profile address and send-as aliases) removed
+   *    - Checked against the recipient rules, if any; a disallowed recipient fails the
+   *      call before anything is written
+   * 3. Builds the RFC 5322 / MIME message with message.builder (encoded headers,
+   *    transfer-encoded body, multipart/mixed when there are attachments) and
+   *    base64url encodes it. HTML drafts are multipart/alternative with a plain-text part
    * 4. Creates a draft using Gmail API with the threadId to maintain threading
    */
   async createDraftReply(
     emailId: string,
     replyBody: string,
-    options?: {
-      /**
-       * Defaults to 'text/plain'. Use 'text/html' to create an HTML draft.
-       * Note: remote images referenced in HTML may be blocked by the email client
-       * until the user chooses to display images.
-       */
-      contentType?: 'text/plain' | 'text/html';
+    options?: DraftContentOptions & {
+      /** 'sender' (default) replies to Reply-To/From only; 'all' also keeps To and Cc. */
+      replyMode?: ReplyMode;
     }
   ): Promise<{ draftId: string; threadId: string }> {
     // Fetch original message for threading info
-    const originalMessage = await this.gmail.users.messages.get({
-      userId: 'me',
-      id: emailId,
-      format: 'full',
-    });
+    const originalMessage = await this.call(() =>
+      this.gmail.users.messages.get({
+        userId: 'me',
+        id: emailId,
+        format: 'full',
+      })
+    );
 
     const msg = originalMessage.data;
     const headers = msg.payload?.headers || [];
 
-    const fromHeader = headers.find((h) => h.name === 'From')?.value || '';
-    const subjectHeader = headers.find((h) => h.name === 'Subject')?.value || '';
-    const messageIdHeader = headers.find((h) => h.name === 'Message-ID')?.value || '';
+    const fromHeader = getHeader(headers, 'From');
+    const subjectHeader = getHeader(headers, 'Subject');
+    // getHeader is case-insensitive, so both "Message-ID" and "Message-Id" are found
+    const messageIdHeader = getHeader(headers, 'Message-ID');
 
     const threadId = msg.threadId!;
 
-    // Construct reply subject (add "Re: " if not present)
-    const replySubject = subjectHeader.startsWith('Re: ')
-      ? subjectHeader
-      : `Re: ${subjectHeader}`;
+    // Collapse any localized reply prefixes ("RE:", "Aw:", "Re[2]:") into a single "Re: "
+    const replySubject = buildReplySubject(subjectHeader, this.replyPrefixes);
 
-    // Build email in RFC 2822 format
-    // Extract email address from "Name <email@example.com>" format
-    const toEmail = fromHeader.includes('<')
-      ? fromHeader.match(/<(.+)>/)?.[1] || fromHeader
-      : fromHeader;
-
-    const emailLines: string[] = [];
-    emailLines.push(`To: ${toEmail}`);
-    emailLines.push(`Subject: ${replySubject}`);
-    
-    if (messageIdHeader) {
-      emailLines.push(`In-Reply-To: ${messageIdHeader}`);
-      emailLines.push(`References: ${messageIdHeader}`);
+    // Work out To/Cc from From, Reply-To, To and Cc, minus the user's own addresses
+    const recipients = computeReplyRecipients(
+      {
+        from: fromHeader,
+        replyTo: getHeader(headers, 'Reply-To'),
+        to: getHeader(headers, 'To'),
+        cc: getHeader(headers, 'Cc'),
+      },
+      options?.replyMode ?? 'sender',
+      await this.getOwnAddresses()
+    );
+
+    if (recipients.to.length === 0) {
+      throw new ValidationError(
+        'Could not determine any recipients for the reply from the original message headers'
+      );
+    }
+    if (this.recipientRules) {
+      assertRecipientsAllowed([...recipients.to, ...recipients.cc], this.recipientRules);
     }
 
-    const contentType = options?.contentType ?? 'text/plain';
-    emailLines.push('MIME-Version: 1.0');
-    emailLines.push(`Content-Type: ${contentType}; charset=utf-8`);
-    emailLines.push(''); // Empty line separates headers from body
-    emailLines.push(replyBody);
+    // Build email in RFC 2822 format
+    const emailHeaders: Array<[string, HeaderValue]> = [['To', recipients.to]];
+    if (recipients.cc.length) {
+      emailHeaders.push(['Cc', recipients.cc]);
+    }
+    emailHeaders.push(['Subject', replySubject]);
 
-    const rawEmail = emailLines.join('\r\n');
+    if (messageIdHeader) {
+      emailHeaders.push(['In-Reply-To', messageIdHeader]);
+      emailHeaders.push([
+        'References',
+        buildReferences({
+          messageId: messageIdHeader,
+          references: getHeader(headers, 'References'),
+          inReplyTo: getHeader(headers, 'In-Reply-To'),
+        }),
+      ]);
+    }
 
-    // Base64url encode (Gmail requires base64url, not base64)
-    const encodedEmail = Buffer.from(rawEmail)
-      .toString('base64')
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
-      .replace(/=+$/, ''); // Remove padding
+    const encodedEmail = encodeDraftMessage(emailHeaders, replyBody, options);
 
     // Create draft with threadId for proper threading
-    const draftResponse = await this.gmail.users.drafts.create({
-      userId: 'me',
-      requestBody: {
-        message: {
-          threadId: threadId,
-          raw: encodedEmail,
+    const draftResponse = await this.call(() =>
+      this.gmail.users.drafts.create({
+        userId: 'me',
+        requestBody: {
+          message: {
+            threadId: threadId,
+            raw: encodedEmail,
+          },
         },
-      },
-    });
+      }),
+      { idempotent: false }
+    );
 
     return {
       draftId: draftResponse.data.id!,
       threadId: threadId,
     };
   }
+
+  /**
+   * Lists drafts, newest first, with recipients and subject for each.
+   */
+  async listDrafts(options?: {
+    /** Page size. Defaults to 20, max 500. */
+    maxResults?: number;
+    pageToken?: string;
+    /** Gmail search query to filter drafts (e.g. "to:alice@example.com"). */
+    query?: string;
+  }): Promise<{ drafts: DraftSummary[]; nextPageToken?: string; errors?: ItemError[] }> {
+    const maxResults = clampInt(options?.maxResults ?? DEFAULT_SEARCH_PAGE_SIZE, 1, 500);
+
+    const listResponse = await this.call(() =>
+      this.gmail.users.drafts.list({
+        userId: 'me',
+        maxResults,
+        ...(options?.pageToken && { pageToken: options.pageToken }),
+        ...(options?.query && { q: options.query }),
+      })
+    );
+
+    const draftIds = (listResponse.data.drafts || [])
+      .map((d) => d.id)
+      .filter((id): id is string => Boolean(id));
+
+    const results = await this.requests.settle(draftIds, async (id) => {
+      const draftResponse = await this.call(() =>
+        this.gmail.users.drafts.get({
+          userId: 'me',
+          id,
+          format: 'metadata',
+        })
+      );
+      return toDraftSummary(draftResponse.data);
+    });
+
+    const drafts: DraftSummary[] = [];
+    const errors: ItemError[] = [];
+    for (const result of results) {
+      if (result.ok) drafts.push(result.value);
+      else errors.push(toItemError(result.item, result.error));
+    }
+
+    return {
+      drafts,
+      ...(listResponse.data.nextPageToken && {
+        nextPageToken: listResponse.data.nextPageToken,
+      }),
+      ...(errors.length && { errors }),
+    };
+  }
+
+  /**
+   * Retrieves a draft with its decoded body and attachment metadata.
+   */
+  async getDraft(draftId: string): Promise<Draft> {
+    const draftResponse = await this.call(() =>
+      this.gmail.users.drafts.get({
+        userId: 'me',
+        id: draftId,
+        format: 'full',
+      })
+    );
+
+    const draft = draftResponse.data;
+    const payload = draft.message?.payload;
+    const body = extractBody(payload);
+
+    const bcc = getHeader(payload?.headers, 'Bcc');
+
+    return {
+      ...toDraftSummary(draft),
+      cc: getHeader(payload?.headers, 'Cc'),
+      ...(bcc && { bcc }),
+      body: body.text,
+      ...(body.html && { html: body.html }),
+      attachments: listAttachments(payload),
+    };
+  }
+
+  /**
+   * Replaces the content of an existing draft in place with users.drafts.update.
+   *
+   * Recipients, subject and the threading headers (In-Reply-To, References, threadId)
+   * are carried over from the current draft. Existing attachments are kept unless
+   * `attachments` is given, in which case they are replaced.
+   */
+  async updateDraft(
+    draftId: string,
+    body: string,
+    options?: DraftContentOptions
+  ): Promise<{ draftId: string; threadId: string }> {
+    const draftResponse = await this.call(() =>
+      this.gmail.users.drafts.get({
+        userId: 'me',
+        id: draftId,
+        format: 'full',
+      })
+    );
+
+    const message = draftResponse.data.message;
+    const headers = message?.payload?.headers || [];
+    const threadId = message?.threadId ?? undefined;
+
+    const emailHeaders: Array<[string, HeaderValue]> = [];
+    for (const name of ['To', 'Cc', 'Bcc']) {
+      const addresses = parseAddressList(getHeader(headers, name));
+      if (addresses.length) emailHeaders.push([name, addresses]);
+    }
+    emailHeaders.push(['Subject', getHeader(headers, 'Subject')]);
+    for (const name of ['In-Reply-To', 'References']) {
+      const value = getHeader(headers, name);
+      if (value) emailHeaders.push([name, value]);
+    }
+
+    const attachments =
+      options?.attachments ?? (await this.downloadAttachments(message?.id, message?.payload));
+
+    const encodedEmail = encodeDraftMessage(emailHeaders, body, { ...options, attachments });
+
+    const updateResponse = await this.call(() =>
+      this.gmail.users.drafts.update({
+        userId: 'me',
+        id: draftId,
+        requestBody: {
+          id: draftId,
+          message: {
+            ...(threadId && { threadId }),
+            raw: encodedEmail,
+          },
+        },
+      })
+    );
+
+    return {
+      draftId: updateResponse.data.id || draftId,
+      threadId: updateResponse.data.message?.threadId || threadId || '',
+    };
+  }
+
+  /**
+   * Permanently deletes a draft (it does not go to Trash).
+   */
+  async deleteDraft(draftId: string): Promise<{ draftId: string }> {
+    await this.call(() => this.gmail.users.drafts.delete({ userId: 'me', id: draftId }), {
+      idempotent: false,
+    });
+    return { draftId };
+  }
+
+  /**
+   * Reports what changed in the mailbox since `startHistoryId`, using the History API
+   * instead of rescanning every unread message.
+   *
+   * - New messages are fetched like getUnreadEmails (drafts are skipped).
+   * - Label changes are merged per message, so a label added and removed again cancels out.
+   * - Without a cursor, or when Gmail no longer has history that old (404), falls back
+   *   to a full resync: the current unread emails plus a fresh cursor.
+   */
+  async getChangesSince(
+    startHistoryId: string | undefined,
+    options?: BodyOptions
+  ): Promise<MailboxChanges> {
+    if (!startHistoryId) {
+      return this.fullResync(options);
+    }
+
+    const records: gmail_v1.Schema$History[] = [];
+    let historyId = startHistoryId;
+    let pageToken: string | undefined;
+
+    try {
+      do {
+        const historyResponse = await this.call(() =>
+          this.gmail.users.history.list({
+            userId: 'me',
+            startHistoryId,
+            historyTypes: ['messageAdded', 'messageDeleted', 'labelAdded', 'labelRemoved'],
+            ...(pageToken && { pageToken }),
+          })
+        );
+
+        records.push(...(historyResponse.data.history ?? []));
+        historyId = historyResponse.data.historyId || historyId;
+        pageToken = historyResponse.data.nextPageToken || undefined;
+      } while (pageToken);
+    } catch (error) {
+      if (isNotFoundError(error)) return this.fullResync(options);
+      throw error;
+    }
+
+    const added = new Map<string, string>();
+    const deleted = new Map<string, string>();
+    const labelChanges = new Map<string, LabelChangeEvent>();
+
+    const labelChangeFor = (message: gmail_v1.Schema$Message): LabelChangeEvent => {
+      let change = labelChanges.get(message.id!);
+      if (!change) {
+        change = {
+          emailId: message.id!,
+          threadId: message.threadId ?? '',
+          labelsAdded: [],
+          labelsRemoved: [],
+        };
+        labelChanges.set(message.id!, change);
+      }
+      return change;
+    };
+
+    for (const record of records) {
+      for (const { message } of record.messagesAdded ?? []) {
+        if (message?.id && !message.labelIds?.includes('DRAFT')) {
+          added.set(message.id, message.threadId ?? '');
+        }
+      }
+      for (const { message } of record.messagesDeleted ?? []) {
+        if (message?.id) deleted.set(message.id, message.threadId ?? '');
+      }
+      for (const { message, labelIds } of record.labelsAdded ?? []) {
+        if (!message?.id) continue;
+        const change = labelChangeFor(message);
+        for (const id of labelIds ?? []) {
+          if (change.labelsRemoved.includes(id)) {
+            change.labelsRemoved = change.labelsRemoved.filter((l) => l !== id);
+          } else if (!change.labelsAdded.includes(id)) {
+            change.labelsAdded.push(id);
+          }
+        }
+      }
+      for (const { message, labelIds } of record.labelsRemoved ?? []) {
+        if (!message?.id) continue;
+        const change = labelChangeFor(message);
+        for (const id of labelIds ?? []) {
+          if (change.labelsAdded.includes(id)) {
+            change.labelsAdded = change.labelsAdded.filter((l) => l !== id);
+          } else if (!change.labelsRemoved.includes(id)) {
+            change.labelsRemoved.push(id);
+          }
+        }
+      }
+    }
+
+    // A message that arrived and was deleted within the window is neither new nor worth reporting
+    // Messages deleted since the history was read are skipped; the next sync reports the deletion
+    const addedIds = [...added.keys()].filter((id) => !deleted.has(id));
+    const { emails, errors } = await this.fetchEmails(addedIds, options);
+
+    return {
+      historyId,
+      fullResync: false,
+      messagesAdded: emails,
+      labelChanges: [...labelChanges.values()].filter(
+        (c) =>
+          !added.has(c.emailId) &&
+          !deleted.has(c.emailId) &&
+          (c.labelsAdded.length > 0 || c.labelsRemoved.length > 0)
+      ),
+      messagesDeleted: [...deleted]
+        .filter(([emailId]) => !added.has(emailId))
+        .map(([emailId, threadId]) => ({ emailId, threadId })),
+      ...(errors.length && { errors }),
+    };
+  }
+
+  private async fullResync(options?: BodyOptions): Promise<MailboxChanges> {
+    // Read the cursor before listing, so anything arriving during the listing shows
+    // up in the next sync instead of being missed.
+    const profile = await this.call(() => this.gmail.users.getProfile({ userId: 'me' }));
+    const historyId = profile.data.historyId;
+    if (!historyId) {
+      throw new Error('Gmail did not return a historyId for the mailbox');
+    }
+
+    const unread = await this.getUnreadEmails(options);
+
+    return {
+      historyId,
+      fullResync: true,
+      messagesAdded: unread.emails,
+      labelChanges: [],
+      messagesDeleted: [],
+      ...(unread.errors && { errors: unread.errors }),
+    };
+  }
+
+  /**
+   * Lists the mailbox's labels, system labels first, then the user's labels by name.
+   */
+  async listLabels(): Promise<Label[]> {
+    const labelsResponse = await this.call(() => this.gmail.users.labels.list({ userId: 'me' }));
+    const labels: Label[] = (labelsResponse.data.labels ?? []).map((label) => ({
+      id: label.id ?? '',
+      name: label.name ?? '',
+      type: label.type === 'user' ? 'user' : 'system',
+    }));
+
+    return labels.sort((a, b) => {
+      if (a.type !== b.type) return a.type === 'system' ? -1 : 1;
+      return a.name.localeCompare(b.name);
+    });
+  }
+
+  /**
+   * Resolves label names (case-insensitive, e.g. "Receipts" or "Clients/Acme") or IDs
+   * to label IDs.
+   *
+   * @throws If a label doesn't exist, listing the available label names
+   */
+  async resolveLabelIds(namesOrIds: string[]): Promise<string[]> {
+    if (namesOrIds.length === 0) return [];
+
+    const labels = await this.listLabels();
+    const ids = new Set(labels.map((l) => l.id));
+    const idsByName = new Map(labels.map((l) => [l.name.toLowerCase(), l.id]));
+
+    const unknown: string[] = [];
+    const resolved = namesOrIds.map((value) => {
+      const id = ids.has(value) ? value : idsByName.get(value.trim().toLowerCase());
+      if (!id) unknown.push(value);
+      return id ?? '';
+    });
+
+    if (unknown.length > 0) {
+      throw new ValidationError(
+        `Unknown label(s): ${unknown.join(', ')}. Available labels: ${labels
+          .map((l) => l.name)
+          .join(', ')}`
+      );
+    }
+    return resolved;
+  }
+
+  /**
+   * Adds and removes labels on messages. Archive, read/unread and star are label
+   * changes too (see MAILBOX_ACTIONS). One message uses messages.modify; more use
+   * messages.batchModify in chunks of 1000.
+   */
+  async modifyEmails(
+    emailIds: string[],
+    change: LabelChange
+  ): Promise<{ emailIds: string[]; addLabelIds: string[]; removeLabelIds: string[] }> {
+    const addLabelIds = change.addLabelIds ?? [];
+    const removeLabelIds = change.removeLabelIds ?? [];
+
+    if (emailIds.length === 0) {
+      throw new ValidationError('At least one email ID is required');
+    }
+    if (addLabelIds.length === 0 && removeLabelIds.length === 0) {
+      throw new ValidationError('No label changes given');
+    }
+
+    try {
+      if (emailIds.length === 1) {
+        await this.call(() =>
+          this.gmail.users.messages.modify({
+            userId: 'me',
+            id: emailIds[0],
+            requestBody: { addLabelIds, removeLabelIds },
+          })
+        );
+      } else {
+        for (let i = 0; i < emailIds.length; i += MAX_BATCH_MODIFY_IDS) {
+          await this.call(() =>
+            this.gmail.users.messages.batchModify({
+              userId: 'me',
+              requestBody: {
+                ids: emailIds.slice(i, i + MAX_BATCH_MODIFY_IDS),
+                addLabelIds,
+                removeLabelIds,
+              },
+            })
+          );
+        }
+      }
+    } catch (error) {
+      if (isInsufficientScopeError(error)) {
+        throw new InsufficientScopeError(
+          `The Gmail authorization is missing the ${MODIFY_SCOPE} scope needed to change labels, archive or mark emails as read.`,
+          { cause: error }
+        );
+      }
+      throw error;
+    }
+
+    return { emailIds, addLabelIds, removeLabelIds };
+  }
+
+  /**
+   * Returns a SHA-256 hash of the draft's raw message, so a caller can tell whether
+   * recipients, subject, body or attachments changed between two reads. (Attachment
+   * IDs in the 'full' format can change between fetches; the raw message doesn't.)
+   */
+  async getDraftContentHash(draftId: string): Promise<string> {
+    const draftResponse = await this.call(() =>
+      this.gmail.users.drafts.get({
+        userId: 'me',
+        id: draftId,
+        format: 'raw',
+      })
+    );
+
+    const raw = draftResponse.data.message?.raw;
+    if (!raw) {
+      throw new Error(`Draft ${draftId} has no message content`);
+    }
+    return createHash('sha256').update(raw).digest('hex');
+  }
+
+  /**
+   * Sends a draft. Gmail removes the draft and files the message under Sent.
+   *
+   * With recipient rules set, the draft's To, Cc and Bcc are checked first, since it may
+   * have been written in the Gmail UI or by another client.
+   */
+  async sendDraft(draftId: string): Promise<{ emailId: string; threadId: string }> {
+    if (this.recipientRules) {
+      const draftResponse = await this.call(() =>
+        this.gmail.users.drafts.get({
+          userId: 'me',
+          id: draftId,
+          format: 'metadata',
+        })
+      );
+      const headers = draftResponse.data.message?.payload?.headers || [];
+      const recipients = ['To', 'Cc', 'Bcc'].flatMap((name) =>
+        parseAddressList(getHeader(headers, name))
+      );
+      assertRecipientsAllowed(recipients, this.recipientRules, 'send');
+    }
+
+    const sendResponse = await this.call(() =>
+      this.gmail.users.drafts.send({
+        userId: 'me',
+        requestBody: { id: draftId },
+      }),
+      { idempotent: false }
+    );
+
+    return {
+      emailId: sendResponse.data.id ?? '',
+      threadId: sendResponse.data.threadId ?? '',
+    };
+  }
+
+  /**
+   * Downloads every attachment of a message so it can be re-attached to a rebuilt draft.
+   */
+  private async downloadAttachments(
+    messageId: string | null | undefined,
+    payload: gmail_v1.Schema$MessagePart | undefined
+  ): Promise<MimeAttachment[]> {
+    const infos = listAttachments(payload);
+    if (!messageId || infos.length === 0) return [];
+
+    // All or nothing: an updated draft must not silently lose an attachment
+    return Promise.all(
+      infos.map(async (info) => {
+        const response = await this.call(() =>
+          this.gmail.users.messages.attachments.get({
+            userId: 'me',
+            messageId,
+            id: info.attachmentId,
+          })
+        );
+        return {
+          filename: info.filename,
+          mimeType: info.mimeType,
+          content: decodeBase64Url(response.data.data || ''),
+        };
+      })
+    );
+  }
 }
 
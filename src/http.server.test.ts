@@ -0,0 +1,224 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { request } from 'http';
+import { getAllowedHosts, McpHttpServer, MCP_HTTP_PATH } from './http.server';
+
+const TOKEN = 'test-token-0123456789abcdef';
+
+function createEchoServer(): Server {
+  const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: 'echo', inputSchema: { type: 'object' as const, properties: {} } }],
+  }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) => ({
+    content: [{ type: 'text' as const, text: JSON.stringify(request.params.arguments) }],
+  }));
+  return server;
+}
+
+describe('McpHttpServer', () => {
+  let httpServer: McpHttpServer;
+  let url: URL;
+  const sessions: string[] = [];
+
+  beforeEach(async () => {
+    sessions.length = 0;
+    httpServer = new McpHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      authToken: TOKEN,
+      createServer: createEchoServer,
+      onSessionStart: (id) => sessions.push(id),
+    });
+    const { port } = await httpServer.listen();
+    url = new URL(`http://127.0.0.1:${port}${MCP_HTTP_PATH}`);
+  });
+
+  afterEach(async () => {
+    await httpServer.close();
+  });
+
+  async function connect(token = TOKEN): Promise<Client> {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(
+      new StreamableHTTPClientTransport(url, {
+        requestInit: { headers: { Authorization: `Bearer ${token}` } },
+      })
+    );
+    return client;
+  }
+
+  it('serves tools to an authenticated client', async () => {
+    const client = await connect();
+
+    const { tools } = await client.listTools();
+    const result = await client.callTool({ name: 'echo', arguments: { hello: 'world' } });
+
+    expect(tools.map((t) => t.name)).toEqual(['echo']);
+    expect(result.content).toEqual([{ type: 'text', text: '{"hello":"world"}' }]);
+    await client.close();
+  });
+
+  it('gives each client its own session', async () => {
+    const first = await connect();
+    const second = await connect();
+
+    expect(httpServer.sessionCount).toBe(2);
+    expect(new Set(sessions).size).toBe(2);
+    await Promise.all([first.close(), second.close()]);
+  });
+
+  it('ends the session when the client terminates it', async () => {
+    const client = await connect();
+    const transport = client.transport as StreamableHTTPClientTransport;
+
+    await transport.terminateSession();
+
+    expect(httpServer.sessionCount).toBe(0);
+    await client.close();
+  });
+
+  it.each([
+    ['a wrong token', { Authorization: 'Bearer nope' }],
+    ['no token', {}],
+  ])('rejects requests with %s', async (_label, headers) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: '{}',
+    });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer');
+  });
+
+  it('rejects unknown sessions and requests without a session', async () => {
+    const headers = {
+      Authorization: `Bearer ${TOKEN}`,
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+    };
+    const listTools = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+    const unknown = await fetch(url, {
+      method: 'POST',
+      headers: { ...headers, 'Mcp-Session-Id': 'missing' },
+      body: listTools,
+    });
+    const withoutSession = await fetch(url, { method: 'POST', headers, body: listTools });
+
+    expect(unknown.status).toBe(404);
+    expect(withoutSession.status).toBe(400);
+  });
+
+  it('refuses an initialize request whose Host header names another site', async () => {
+    // fetch can't override Host, so send it with http.request
+    const status = await new Promise<number>((resolve, reject) => {
+      const req = request(url, {
+        method: 'POST',
+        headers: {
+          Host: `rebound.example:${url.port}`,
+          Authorization: `Bearer ${TOKEN}`,
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+        },
+      });
+      req.on('response', (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      });
+      req.on('error', reject);
+      req.end(
+        JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'initialize',
+          params: {
+            protocolVersion: '2025-06-18',
+            capabilities: {},
+            clientInfo: { name: 'test-client', version: '1.0.0' },
+          },
+        })
+      );
+    });
+
+    expect(status).toBe(403);
+    expect(httpServer.sessionCount).toBe(0);
+  });
+
+  it('closes open sessions on shutdown', async () => {
+    const client = await connect();
+
+    await httpServer.close();
+
+    expect(httpServer.sessionCount).toBe(0);
+    await client.close();
+  });
+
+  it('closes sessions that stay idle', async () => {
+    await httpServer.close();
+    httpServer = new McpHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      authToken: TOKEN,
+      createServer: createEchoServer,
+      sessionIdleTimeoutMs: 50,
+    });
+    const { port } = await httpServer.listen();
+
+    // Initialize only, without opening a notification stream
+    const response = await fetch(`http://127.0.0.1:${port}${MCP_HTTP_PATH}`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${TOKEN}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: {
+          protocolVersion: '2025-06-18',
+          capabilities: {},
+          clientInfo: { name: 'test-client', version: '1.0.0' },
+        },
+      }),
+    });
+    await response.text();
+    expect(httpServer.sessionCount).toBe(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    expect(httpServer.sessionCount).toBe(0);
+  });
+});
+
+describe('getAllowedHosts', () => {
+  it('accepts the loopback names on a loopback address', () => {
+    expect(getAllowedHosts('127.0.0.1', 3333)).toEqual([
+      'localhost:3333',
+      '127.0.0.1:3333',
+      '[::1]:3333',
+    ]);
+  });
+
+  it('accepts only the bound address otherwise, plus configured names', () => {
+    expect(getAllowedHosts('10.0.0.5', 3333, ['DevBox.example', 'proxy.example:443'])).toEqual([
+      '10.0.0.5:3333',
+      'devbox.example',
+      'devbox.example:3333',
+      'proxy.example:443',
+    ]);
+    expect(getAllowedHosts('fd00::5', 3333)).toEqual(['[fd00::5]:3333']);
+  });
+
+  it('accepts the loopback names and this machine on a wildcard address', () => {
+    const allowed = getAllowedHosts('0.0.0.0', 3333);
+
+    expect(allowed).toEqual(expect.arrayContaining(['localhost:3333', '127.0.0.1:3333']));
+    expect(allowed).not.toContain('0.0.0.0:3333');
+  });
+});
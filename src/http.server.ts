@@ -0,0 +1,314 @@
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { createServer, IncomingMessage, Server as NodeHttpServer, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { hostname, networkInterfaces } from 'os';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Serves MCP over Streamable HTTP so several clients can share one server process.
+ *
+ * Every request must carry `Authorization: Bearer <token>`, and a Host header naming this
+ * server (DNS-rebinding protection, see `getAllowedHosts`). Each client session gets its
+ * own MCP Server (built by `createServer`) and transport; sessions end when the client
+ * sends DELETE, after being idle for `sessionIdleTimeoutMs`, or when the server closes.
+ */
+
+export type McpHttpServerOptions = {
+  host: string;
+  /** 0 picks a free port (see `listen`). */
+  port: number;
+  /** Clients must send it as a bearer token. */
+  authToken: string;
+  /**
+   * Host header values to accept besides those derived from `host`, e.g. the dev box's
+   * DNS name or a reverse proxy's. A name without a port is accepted with or without
+   * the listening port.
+   */
+  allowedHosts?: string[];
+  /** Builds the MCP server for a new session, with its handlers registered. */
+  createServer: () => Server | Promise<Server>;
+  /**
+   * Sessions with no open request (such as a notification stream) for this long are
+   * closed. Default 30 minutes.
+   */
+  sessionIdleTimeoutMs?: number;
+  /** Largest accepted request body. Default 4 MiB. */
+  maxBodyBytes?: number;
+  /** Called once a session's server is connected, e.g. to track it for notifications. */
+  onSessionStart?: (sessionId: string, server: Server) => void;
+  onSessionEnd?: (sessionId: string) => void;
+};
+
+export const MCP_HTTP_PATH = '/mcp';
+
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_BODY_BYTES = 4 * 1024 * 1024;
+/** How long `close` waits for open responses before dropping their connections. */
+const SHUTDOWN_GRACE_MS = 5000;
+
+type Session = {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+  /** Requests still being answered, including the client's notification (GET) stream. */
+  openRequests: number;
+};
+
+const LOOPBACK_NAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+/** IPv6 addresses appear in brackets in a Host header. */
+function hostName(host: string): string {
+  const name = host.toLowerCase();
+  return name.includes(':') && !name.startsWith('[') ? `[${name}]` : name;
+}
+
+/**
+ * The Host header values the server accepts. A web page can point its own domain at
+ * this address (DNS rebinding), but the browser then sends that domain as Host, so it
+ * is refused.
+ *
+ * A loopback address accepts the loopback names; 0.0.0.0 or :: also accepts the
+ * machine's hostname and interface addresses; any other address accepts only itself.
+ */
+export function getAllowedHosts(host: string, port: number, extraHosts: string[] = []): string[] {
+  const names = new Set<string>();
+  if (isLoopback(host) || host === '0.0.0.0' || host === '::') {
+    LOOPBACK_NAMES.forEach((name) => names.add(name));
+  }
+  if (host === '0.0.0.0' || host === '::') {
+    names.add(hostName(hostname()));
+    for (const addresses of Object.values(networkInterfaces())) {
+      addresses?.forEach(({ address }) => names.add(hostName(address)));
+    }
+  } else {
+    names.add(hostName(host));
+  }
+
+  const allowed = [...names].map((name) => `${name}:${port}`);
+  for (const extra of extraHosts) {
+    const value = extra.trim().toLowerCase();
+    // "name:port" and "[v6]:port" are used as given
+    if (/^([^:]+|\[[^\]]+\]):\d+$/.test(value)) {
+      allowed.push(value);
+    } else {
+      const name = hostName(value);
+      allowed.push(name, `${name}:${port}`);
+    }
+  }
+  return [...new Set(allowed)];
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/** Compares digests so the comparison takes the same time whatever the token length. */
+function tokensMatch(given: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(given), digest(expected));
+}
+
+function bearerToken(req: IncomingMessage): string | undefined {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  return match?.[1].trim();
+}
+
+function sessionIdHeader(req: IncomingMessage): string | undefined {
+  const value = req.headers['mcp-session-id'];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/** Errors outside a session use the JSON-RPC error shape the SDK transport uses. */
+function sendError(res: ServerResponse, status: number, message: string): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (status === 401) headers['WWW-Authenticate'] = 'Bearer';
+  res.writeHead(status, headers).end(
+    JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code: status === 500 ? -32603 : -32000, message },
+      id: null,
+    })
+  );
+}
+
+export class McpHttpServer {
+  private readonly options: McpHttpServerOptions;
+  private readonly httpServer: NodeHttpServer;
+  private readonly sessions = new Map<string, Session>();
+  private allowedHosts: string[] = [];
+  private sweepTimer?: ReturnType<typeof setInterval>;
+  private closing = false;
+
+  constructor(options: McpHttpServerOptions) {
+    if (!options.authToken) throw new Error('McpHttpServer requires an auth token');
+    this.options = options;
+    this.httpServer = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        const status = error instanceof HttpError ? error.status : 500;
+        if (status === 500) console.error('MCP HTTP request failed:', error);
+        sendError(res, status, error instanceof Error ? error.message : String(error));
+      });
+    });
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Starts listening.
+   *
+   * @returns The bound address, with the actual port when `port` was 0
+   */
+  async listen(): Promise<AddressInfo> {
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    const idleTimeoutMs = this.options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+    this.sweepTimer = setInterval(
+      () => void this.closeIdleSessions(idleTimeoutMs),
+      Math.min(idleTimeoutMs, 60_000)
+    );
+    this.sweepTimer.unref();
+
+    const address = this.httpServer.address() as AddressInfo;
+    this.allowedHosts = getAllowedHosts(
+      this.options.host,
+      address.port,
+      this.options.allowedHosts
+    );
+    return address;
+  }
+
+  /**
+   * Stops accepting connections, closes every session (which ends their SSE streams)
+   * and waits for in-flight responses, dropping connections still open after a grace
+   * period.
+   */
+  async close(): Promise<void> {
+    if (this.closing) return;
+    this.closing = true;
+    clearInterval(this.sweepTimer);
+
+    const closed = new Promise<void>((resolve) => this.httpServer.close(() => resolve()));
+    await Promise.all([...this.sessions.keys()].map((id) => this.closeSession(id)));
+    this.httpServer.closeIdleConnections();
+
+    const grace = setTimeout(() => this.httpServer.closeAllConnections(), SHUTDOWN_GRACE_MS);
+    grace.unref();
+    await closed;
+    clearTimeout(grace);
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (path !== MCP_HTTP_PATH) {
+      throw new HttpError(404, `Not found. The MCP endpoint is ${MCP_HTTP_PATH}`);
+    }
+
+    const token = bearerToken(req);
+    if (!token || !tokensMatch(token, this.options.authToken)) {
+      throw new HttpError(401, 'Missing or invalid bearer token');
+    }
+    if (this.closing) throw new HttpError(503, 'Server is shutting down');
+
+    const sessionId = sessionIdHeader(req);
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session) throw new HttpError(404, 'Session not found. Initialize a new session.');
+      session.lastActivity = Date.now();
+      session.openRequests++;
+      res.once('close', () => {
+        session.openRequests--;
+        session.lastActivity = Date.now();
+      });
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    if (req.method !== 'POST') throw new HttpError(400, 'Missing Mcp-Session-Id header');
+    const body = await this.readJsonBody(req);
+    if (!isInitializeRequest(body)) {
+      throw new HttpError(400, 'Missing Mcp-Session-Id header. Send an initialize request first.');
+    }
+    await this.startSession(req, res, body);
+  }
+
+  private async startSession(req: IncomingMessage, res: ServerResponse, body: unknown) {
+    const server = await this.options.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableDnsRebindingProtection: true,
+      allowedHosts: this.allowedHosts,
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, { server, transport, lastActivity: Date.now(), openRequests: 0 });
+        this.options.onSessionStart?.(id, server);
+      },
+    });
+    // Fires on DELETE, idle timeout and shutdown alike
+    transport.onclose = () => {
+      const id = transport.sessionId;
+      if (id && this.sessions.delete(id)) this.options.onSessionEnd?.(id);
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+    // The initialize request was rejected, so no session will use this server
+    if (!transport.sessionId) await server.close();
+  }
+
+  private async closeSession(id: string): Promise<void> {
+    const session = this.sessions.get(id);
+    if (!session) return;
+    try {
+      await session.server.close();
+    } catch (error) {
+      console.error(`Failed to close MCP session ${id}:`, error);
+    }
+  }
+
+  private async closeIdleSessions(idleTimeoutMs: number): Promise<void> {
+    const cutoff = Date.now() - idleTimeoutMs;
+    const idle = [...this.sessions].filter(
+      ([, s]) => s.openRequests === 0 && s.lastActivity < cutoff
+    );
+    await Promise.all(idle.map(([id]) => this.closeSession(id)));
+  }
+
+  private async readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const maxBytes = this.options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > maxBytes) throw new HttpError(413, `Request body exceeds ${maxBytes} bytes`);
+      chunks.push(chunk as Buffer);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      throw new HttpError(400, 'Request body is not valid JSON');
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import { Email } from './gmail.service';
+import { InboxWatcher } from './inbox.watcher';
+
+function email(id: string): Email {
+  return {
+    emailId: id,
+    threadId: `thread-${id}`,
+    sender: 'alice@example.com',
+    subject: `Subject ${id}`,
+    body: 'snippet',
+    attachments: [],
+  } as unknown as Email;
+}
+
+describe('InboxWatcher', () => {
+  let unreadIds: string[];
+  let gmailService: { listMessageIds: jest.Mock; getEmail: jest.Mock };
+
+  beforeEach(() => {
+    unreadIds = ['a', 'b'];
+    gmailService = {
+      listMessageIds: jest.fn(async () => unreadIds),
+      getEmail: jest.fn(async (id: string) => email(id)),
+    };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('check', () => {
+    it('records a baseline on the first check without reporting anything', async () => {
+      const watcher = new InboxWatcher(gmailService, { intervalMs: 1000, onNewMail: jest.fn() });
+
+      await expect(watcher.check()).resolves.toEqual([]);
+      expect(gmailService.listMessageIds).toHaveBeenCalledWith('is:unread in:inbox', {
+        maxResults: 100,
+      });
+      expect(gmailService.getEmail).not.toHaveBeenCalled();
+    });
+
+    it('reports only messages that became unread since the previous check', async () => {
+      const watcher = new InboxWatcher(gmailService, {
+        intervalMs: 1000,
+        query: 'from:boss@example.com',
+        onNewMail: jest.fn(),
+      });
+      await watcher.check();
+
+      unreadIds = ['c', 'b'];
+      const emails = await watcher.check();
+
+      expect(gmailService.listMessageIds).toHaveBeenLastCalledWith(
+        'is:unread from:boss@example.com',
+        { maxResults: 100 }
+      );
+      expect(gmailService.getEmail).toHaveBeenCalledTimes(1);
+      expect(gmailService.getEmail).toHaveBeenCalledWith('c', { bodyFormat: 'snippet' });
+      expect(emails.map((e) => e.emailId)).toEqual(['c']);
+    });
+
+    it('does not report a message again when it comes back unread', async () => {
+      const watcher = new InboxWatcher(gmailService, { intervalMs: 1000, onNewMail: jest.fn() });
+      await watcher.check();
+
+      unreadIds = ['c'];
+      await expect(watcher.check()).resolves.toHaveLength(1);
+      // "a" marked read, then unread again; "c" missing from one listing
+      unreadIds = ['b'];
+      await watcher.check();
+      unreadIds = ['a', 'b', 'c'];
+
+      await expect(watcher.check()).resolves.toEqual([]);
+      expect(gmailService.getEmail).toHaveBeenCalledTimes(1);
+    });
+
+    it('skips new messages that can no longer be fetched', async () => {
+      const watcher = new InboxWatcher(gmailService, { intervalMs: 1000, onNewMail: jest.fn() });
+      await watcher.check();
+
+      unreadIds = ['c', 'd'];
+      gmailService.getEmail.mockImplementation(async (id: string) => {
+        if (id === 'c') throw Object.assign(new Error('Not Found'), { code: 404 });
+        return email(id);
+      });
+
+      const emails = await watcher.check();
+
+      expect(emails.map((e) => e.emailId)).toEqual(['d']);
+    });
+  });
+
+  describe('polling', () => {
+    it('polls on the interval plus jitter and notifies about new mail', async () => {
+      jest.useFakeTimers();
+      const onNewMail = jest.fn();
+      const watcher = new InboxWatcher(gmailService, {
+        intervalMs: 60_000,
+        jitterMs: 10_000,
+        onNewMail,
+        random: () => 0.5,
+      });
+
+      watcher.start();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(gmailService.listMessageIds).toHaveBeenCalledTimes(1);
+
+      unreadIds = ['c', 'a', 'b'];
+      await jest.advanceTimersByTimeAsync(64_999);
+      expect(gmailService.listMessageIds).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(gmailService.listMessageIds).toHaveBeenCalledTimes(2);
+      expect(onNewMail).toHaveBeenCalledTimes(1);
+      expect(onNewMail.mock.calls[0][0].map((e: Email) => e.emailId)).toEqual(['c']);
+
+      watcher.stop();
+    });
+
+    it('reports errors and keeps polling', async () => {
+      jest.useFakeTimers();
+      const onError = jest.fn();
+      gmailService.listMessageIds.mockRejectedValueOnce(new Error('Backend Error'));
+      const watcher = new InboxWatcher(gmailService, {
+        intervalMs: 1000,
+        onNewMail: jest.fn(),
+        onError,
+      });
+
+      watcher.start();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Backend Error' }));
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(gmailService.listMessageIds).toHaveBeenCalledTimes(2);
+
+      watcher.stop();
+    });
+
+    it('stops polling after stop()', async () => {
+      jest.useFakeTimers();
+      const watcher = new InboxWatcher(gmailService, { intervalMs: 1000, onNewMail: jest.fn() });
+
+      watcher.start();
+      await jest.advanceTimersByTimeAsync(0);
+      watcher.stop();
+      await jest.advanceTimersByTimeAsync(10_000);
+
+      expect(gmailService.listMessageIds).toHaveBeenCalledTimes(1);
+    });
+  });
+});
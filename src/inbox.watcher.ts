@@ -0,0 +1,129 @@
+import { Email, GmailService } from './gmail.service.js';
+
+/**
+ * Background poller that notices new unread mail matching a Gmail query.
+ *
+ * Each check is a single messages.list call; only messages the watcher has never seen
+ * before are fetched (metadata only) and passed to `onNewMail`, so mail marked read and
+ * then unread again, or briefly missing from the listing, isn't reported twice. The
+ * first check just records what is already unread, so existing mail isn't reported as new.
+ *
+ * Polling needs no Pub/Sub topic or public endpoint, which a local MCP server doesn't have.
+ */
+
+export type InboxWatcherOptions = {
+  /** Time between checks. */
+  intervalMs: number;
+  /** Up to this much is added to each interval at random, so checks don't align. Default 0. */
+  jitterMs?: number;
+  /** Gmail query new mail must match, e.g. "in:inbox" or "from:boss@example.com". Default "in:inbox". */
+  query?: string;
+  /** Called with the new emails after a check that found some. */
+  onNewMail: (emails: Email[]) => void | Promise<void>;
+  /** Called when a check fails. Polling continues with the next interval. */
+  onError?: (error: unknown) => void;
+  /** Overridable for tests. Returns a number in [0, 1). */
+  random?: () => number;
+};
+
+/** How many of the newest matching unread messages each check looks at. */
+const MAX_TRACKED_MESSAGES = 100;
+/** How many seen message IDs are remembered; the least recently listed are forgotten. */
+const MAX_REMEMBERED_MESSAGES = 5000;
+
+export class InboxWatcher {
+  private gmailService: Pick<GmailService, 'listMessageIds' | 'getEmail'>;
+  private options: InboxWatcherOptions;
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = false;
+  /**
+   * Every message ID listed so far, least recently listed first and bounded by
+   * MAX_REMEMBERED_MESSAGES; undefined until the first check.
+   */
+  private seen?: Set<string>;
+
+  constructor(
+    gmailService: Pick<GmailService, 'listMessageIds' | 'getEmail'>,
+    options: InboxWatcherOptions
+  ) {
+    this.gmailService = gmailService;
+    this.options = options;
+  }
+
+  get query(): string {
+    return this.options.query?.trim() || 'in:inbox';
+  }
+
+  /**
+   * Starts polling. The first check runs immediately to record the current unread mail.
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Stops polling. A check already in flight finishes but reports nothing.
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Runs one check and returns the new emails (none on the first check).
+   */
+  async check(): Promise<Email[]> {
+    const ids = await this.gmailService.listMessageIds(`is:unread ${this.query}`, {
+      maxResults: MAX_TRACKED_MESSAGES,
+    });
+
+    const firstCheck = !this.seen;
+    const seen = (this.seen ??= new Set());
+    const newIds = ids.filter((id) => !seen.has(id));
+    for (const id of ids) {
+      // Re-added so IDs still listed are the last to be forgotten
+      seen.delete(id);
+      seen.add(id);
+    }
+    for (const id of seen) {
+      if (seen.size <= MAX_REMEMBERED_MESSAGES) break;
+      seen.delete(id);
+    }
+    if (firstCheck) return [];
+
+    const emails = await Promise.all(
+      newIds.map((id) =>
+        // A message deleted or unreadable since the listing is simply not reported
+        this.gmailService.getEmail(id, { bodyFormat: 'snippet' }).catch(() => undefined)
+      )
+    );
+    return emails.filter((e): e is Email => e !== undefined);
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => void this.tick(), delayMs);
+    // Never keep the process alive just for polling
+    this.timer.unref?.();
+  }
+
+  private async tick(): Promise<void> {
+    try {
+      const emails = await this.check();
+      if (this.running && emails.length > 0) {
+        await this.options.onNewMail(emails);
+      }
+    } catch (error) {
+      if (this.running) this.options.onError?.(error);
+    }
+
+    if (this.running) {
+      const random = this.options.random ?? Math.random;
+      this.schedule(this.options.intervalMs + Math.floor(random() * (this.options.jitterMs ?? 0)));
+    }
+  }
+}
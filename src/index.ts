@@ -2,48 +2,144 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { google } from 'googleapis';
-import { GmailService } from './gmail.service.js';
-import { APODService, createNasaApodTools } from './extensions/nasa-apod/index.js';
-import { assertReplyBodyHasMainReplyBeforeSpaceEdition } from './reply.validation.js';
+import { fileURLToPath } from 'url';
+import {
+  BodyFormat,
+  DraftContentOptions,
+  Email,
+  GmailService,
+  MAILBOX_ACTIONS,
+  MailboxAction,
+} from './gmail.service.js';
+import {
+  assertUniqueNames,
+  discoverExtensions,
+  LoadedExtension,
+  loadExtensions,
+  parseBooleanSetting,
+  shutdownExtensions,
+} from './extension.loader.js';
+import { PolicyDeniedError, toToolError, ValidationError } from './errors.js';
+import {
+  applyToolPolicy,
+  readRecipientRules,
+  readToolPolicy,
+  RecipientRules,
+  ToolPolicy,
+} from './access.policy.js';
+import { McpTool } from './mcp.tool.js';
+import { JsonSchema, validateArguments } from './tool.arguments.js';
+import {
+  assertReplyBodyHasMainReplyBeforeSpaceEdition,
+  DraftFormat,
+} from './reply.validation.js';
+import { DraftAttachmentInput, resolveDraftAttachments } from './draft.attachments.js';
+import { ReplyMode } from './reply.recipients.js';
+import { getConfiguredReplyPrefixes } from './reply.threading.js';
+import { buildTextAlternative } from './text.alternative.js';
+import {
+  buildResourceUri,
+  listGmailResources,
+  parseResourceUri,
+  readGmailResource,
+  RESOURCE_TEMPLATES,
+} from './gmail.resources.js';
+import { getGmailPrompt, PROMPTS } from './gmail.prompts.js';
+import { GmailAccounts, GmailAccountsConfig, readGmailAccountsConfig } from './gmail.accounts.js';
+import { InboxWatcher } from './inbox.watcher.js';
+import { createTokenStoreFromEnv } from './token.store.js';
+import { McpHttpServer, MCP_HTTP_PATH } from './http.server.js';
+import { getSyncStateFile, loadSyncState, saveSyncState } from './sync.state.js';
+import { DEFAULT_CONFIRMATION_TTL_MS, SendConfirmationStore } from './send.confirmation.js';
 import 'dotenv/config';
 
 /**
  * MCP Server for Gmail Integration
  * 
- * This server provides two tools to AI assistants:
+ * This server provides tools to AI assistants:
  * 1. get_unread_emails - Reads unread emails from Gmail
- * 2. create_draft_reply - Creates a draft reply to an email
+ * 2. search_emails - Searches emails with Gmail query syntax, one page at a time
+ * 3. get_thread - Reads a whole conversation
+ * 4. get_attachment - Downloads an attachment as text or base64
+ * 5. create_draft_reply - Creates a draft reply to an email
+ * 6. list_drafts / get_draft / update_draft / delete_draft - Manage existing drafts
+ * 7. list_labels / mark_as_read / mark_as_unread / archive_emails / star_emails /
+ *    unstar_emails / modify_labels - Organize the mailbox after triage
+ * 8. get_changes_since - Reports new messages, label changes and deletions since the last call
+ * 9. send_draft - Sends a draft after explicit confirmation (disabled unless ENABLE_SEND_DRAFT=true)
+ * 10. list_accounts - Lists the configured Gmail accounts; the other tools take an optional
+ *     `account` to pick one
+ *
+ * With READ_ONLY_MODE=true only the tools that don't change the mailbox are registered,
+ * and ALLOWED_TOOLS can narrow the list further (see src/access.policy.ts).
  * 
+ * It also exposes emails, threads and labels as resources
+ * (gmail://message/{id}, gmail://thread/{id}, gmail://label/{name}), the prompts
+ * triage_inbox, draft_reply and summarize_thread, and, when
+ * ENABLE_INBOX_WATCHER=true, polls for new unread mail and notifies the client.
+ *
+ * Clients connect over stdio by default. With MCP_TRANSPORT=http the server instead
+ * listens for Streamable HTTP connections, so several clients can share one process.
+ *
  * Process flow:
  * 1. Server starts and authenticates with Gmail API using OAuth2 (refresh token)
- * 2. Registers tools with the MCP protocol
- * 3. Handles tool calls from AI assistants
- * 4. Delegates to GmailService for actual Gmail API interactions
+ * 2. Loads the enabled extensions from src/extensions/ (e.g. NASA APOD)
+ * 3. Registers tools, resources and prompts (core and extension) with the MCP protocol
+ * 4. Handles tool calls from AI assistants
+ * 5. Delegates to GmailService for actual Gmail API interactions
  * 
  * Authentication:
  * - Uses OAuth2 flow for personal Gmail accounts
  * - Requires initial authorization (run `npm run auth` once)
- * - Refresh token is stored in .env file and used for subsequent requests
+ * - Refresh tokens are kept in the token store (.gmail-tokens.json, optionally
+ *   encrypted), falling back to GMAIL_REFRESH_TOKEN in .env
+ * - Further named accounts each have their own refresh token
  */
 
-function validateEnvironment(): void {
+async function validateEnvironment(): Promise<GmailAccountsConfig> {
   if (!process.env.GMAIL_CLIENT_ID || !process.env.GMAIL_CLIENT_SECRET) {
     console.error('Error: GMAIL_CLIENT_ID and GMAIL_CLIENT_SECRET must be set in .env file');
     console.error('Please follow the instructions in .env.example to set up OAuth2 credentials');
     process.exit(1);
   }
 
-  if (!process.env.GMAIL_REFRESH_TOKEN) {
-    console.error('Error: GMAIL_REFRESH_TOKEN not found in .env file');
-    console.error('Run "npm run auth" to get your refresh token');
+  try {
+    // Tokens saved by `npm run auth` take precedence over GMAIL_REFRESH_TOKEN*
+    const stored = await createTokenStoreFromEnv().load();
+    const storedTokens = Object.fromEntries(
+      Object.entries(stored).map(([account, token]) => [account, token.refreshToken])
+    );
+    return readGmailAccountsConfig(process.env, storedTokens);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
     process.exit(1);
   }
 }
 
-function createGmailService(): GmailService {
+function createGmailAccounts(config: GmailAccountsConfig): GmailAccounts {
+  const recipientRules = readRecipientRules();
+  const services = new Map(
+    config.accounts.map(({ name, refreshToken }) => [
+      name,
+      createGmailService(refreshToken, recipientRules),
+    ])
+  );
+  return new GmailAccounts(services, config.defaultAccount);
+}
+
+function createGmailService(refreshToken: string, recipientRules: RecipientRules): GmailService {
   const oauth2Client = new google.auth.OAuth2(
     process.env.GMAIL_CLIENT_ID,
     process.env.GMAIL_CLIENT_SECRET,
@@ -51,14 +147,26 @@ function createGmailService(): GmailService {
   );
 
   oauth2Client.setCredentials({
-    refresh_token: process.env.GMAIL_REFRESH_TOKEN,
+    refresh_token: refreshToken,
   });
 
   const gmailClient = google.gmail({ version: 'v1', auth: oauth2Client });
-  return new GmailService(gmailClient);
+  return new GmailService(gmailClient, {
+    replyPrefixes: getConfiguredReplyPrefixes(),
+    requests: { concurrency: readIntEnv('GMAIL_MAX_CONCURRENT_REQUESTS', 1) },
+    recipientRules,
+  });
 }
 
-function createMCPServer(): Server {
+/** Reads an integer setting; unset or invalid values (or values below `min`) give undefined. */
+function readIntEnv(name: string, min: number): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return undefined;
+  const value = Number(raw);
+  return Number.isInteger(value) && value >= min ? value : undefined;
+}
+
+function createMCPServer(options?: { watchInbox?: boolean }): Server {
   return new Server(
     {
       name: 'gmail-mcp-server',
@@ -67,6 +175,10 @@ function createMCPServer(): Server {
     {
       capabilities: {
         tools: {},
+        prompts: {},
+        // The inbox watcher notifies subscribers and logs what it finds
+        resources: options?.watchInbox ? { subscribe: true, listChanged: true } : {},
+        ...(options?.watchInbox && { logging: {} }),
       },
     }
   );
@@ -91,116 +203,493 @@ function createMCPResponse(data: unknown, isError = false) {
   };
 }
 
-function isSpacePictureEnabled(): boolean {
-  // Default: enabled
-  const raw = process.env.ENABLE_SPACE_PICTURE_OF_THE_DAY;
-  if (raw === undefined) return true;
+function readBooleanEnv(name: string, defaultValue: boolean): boolean {
+  return parseBooleanSetting(process.env[name]) ?? defaultValue;
+}
+
+type InboxWatcherConfig = {
+  intervalMs: number;
+  jitterMs: number;
+  query?: string;
+};
+
+/** Gmail allows plenty of list calls, but polling faster than this gains nothing. */
+const MIN_INBOX_WATCHER_INTERVAL_SECONDS = 15;
 
-  const v = raw.trim().toLowerCase();
-  if (['0', 'false', 'no', 'n', 'off', 'disabled'].includes(v)) return false;
-  if (['1', 'true', 'yes', 'y', 'on', 'enabled'].includes(v)) return true;
+function getInboxWatcherConfig(): InboxWatcherConfig | undefined {
+  // Default: disabled
+  if (!readBooleanEnv('ENABLE_INBOX_WATCHER', false)) return undefined;
 
-  return true;
+  const intervalSeconds = Math.max(
+    MIN_INBOX_WATCHER_INTERVAL_SECONDS,
+    readIntEnv('INBOX_WATCHER_INTERVAL_SECONDS', 1) ?? 60
+  );
+  const jitterSeconds = readIntEnv('INBOX_WATCHER_JITTER_SECONDS', 0) ?? 10;
+
+  return {
+    intervalMs: intervalSeconds * 1000,
+    jitterMs: jitterSeconds * 1000,
+    query: process.env.INBOX_WATCHER_QUERY,
+  };
 }
 
-type McpToolDefinition = {
-  name: string;
-  description: string;
-  inputSchema: {
-    type: 'object';
-    properties: Record<string, unknown>;
-    required?: string[];
+type HttpTransportConfig = {
+  host: string;
+  port: number;
+  authToken: string;
+  allowedHosts: string[];
+  sessionIdleTimeoutMs: number;
+};
+
+/** Long enough that the token can't be guessed; `openssl rand -hex 32` gives 64 characters. */
+const MIN_HTTP_AUTH_TOKEN_LENGTH = 32;
+
+/**
+ * Reads the Streamable HTTP settings when MCP_TRANSPORT=http. The default is stdio.
+ *
+ * @throws If MCP_TRANSPORT is unknown, or the auth token is missing or too short
+ */
+function getHttpTransportConfig(): HttpTransportConfig | undefined {
+  const transport = (process.env.MCP_TRANSPORT ?? 'stdio').trim().toLowerCase();
+  if (transport === 'stdio' || transport === '') return undefined;
+  if (transport !== 'http') {
+    throw new Error(`Unknown MCP_TRANSPORT "${transport}". Use "stdio" or "http".`);
+  }
+
+  const authToken = process.env.MCP_HTTP_AUTH_TOKEN?.trim() ?? '';
+  if (authToken.length < MIN_HTTP_AUTH_TOKEN_LENGTH) {
+    throw new Error(
+      `MCP_TRANSPORT=http requires MCP_HTTP_AUTH_TOKEN with at least ${MIN_HTTP_AUTH_TOKEN_LENGTH} characters (e.g. from "openssl rand -hex 32")`
+    );
+  }
+
+  return {
+    host: process.env.MCP_HTTP_HOST?.trim() || '127.0.0.1',
+    port: readIntEnv('MCP_HTTP_PORT', 0) ?? 3333,
+    authToken,
+    // Host names clients reach the server by, besides those of MCP_HTTP_HOST
+    allowedHosts: (process.env.MCP_HTTP_ALLOWED_HOSTS ?? '')
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean),
+    sessionIdleTimeoutMs: (readIntEnv('MCP_HTTP_SESSION_IDLE_MINUTES', 1) ?? 30) * 60 * 1000,
   };
+}
+
+function isSendDraftEnabled(): boolean {
+  // Default: disabled. Drafts are only sent when the operator opts in.
+  return readBooleanEnv('ENABLE_SEND_DRAFT', false);
+}
+
+const bodyFormatProperties = {
+  bodyFormat: {
+    type: 'string',
+    enum: ['snippet', 'full', 'truncated'],
+    description:
+      'Optional: "truncated" (default) returns the decoded message text cut at maxBodyChars, "full" returns the whole text, "snippet" returns Gmail\'s short preview.',
+  },
+  maxBodyChars: {
+    type: 'integer',
+    minimum: 1,
+    maximum: 1_000_000,
+    description: 'Optional: maximum body length when bodyFormat is "truncated". Default 2000.',
+  },
 };
 
-type McpToolHandler = (args: unknown) => Promise<unknown>;
+/** Gmail message, thread, draft, label and attachment IDs are URL-safe tokens. */
+const GMAIL_ID_PATTERN = '^[A-Za-z0-9_-]+$';
 
-type McpTool = {
-  definition: McpToolDefinition;
-  handler: McpToolHandler;
+function idProperty(description: string) {
+  return { type: 'string', pattern: GMAIL_ID_PATTERN, description };
+}
+
+const pageSizeProperty = {
+  type: 'integer',
+  minimum: 1,
+  maximum: 500,
+  description: 'Optional: page size. Default 20; max 500.',
+};
+
+const draftContentProperties = {
+  format: {
+    type: 'string',
+    enum: ['plain', 'html'],
+    description:
+      'Optional: "plain" (default) or "html". Use "html" if the body contains HTML (e.g. Space Edition block with an <img>). HTML drafts automatically include a plain-text alternative.',
+  },
+  attachments: {
+    type: 'array',
+    description:
+      'Optional: files to attach. Each item is either { path } (a local file inside a directory allowed by DRAFT_ATTACHMENT_DIRS) or { content, filename } (base64 content). mimeType is optional and guessed from the filename.',
+    items: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', minLength: 1 },
+        content: { type: 'string', minLength: 1 },
+        filename: { type: 'string', minLength: 1 },
+        mimeType: { type: 'string', minLength: 1 },
+      },
+      additionalProperties: false,
+    },
+  },
+};
+
+const emailIdsProperty = {
+  type: 'array',
+  items: { type: 'string', pattern: GMAIL_ID_PATTERN },
+  minItems: 1,
+  description:
+    'IDs of the emails to change (emailId from get_unread_emails, search_emails or get_thread). Up to 1000 per call is efficient; more are sent in batches.',
+};
+
+
+/** The tools a session exposes, and those the tool policy hides. */
+type ToolSet = {
+  tools: McpTool[];
+  disabledTools: Set<string>;
 };
 
 /**
- * Registers all tools with the MCP server.
+ * Builds the tools for one session. Each call gets its own send_draft confirmations.
  * 
- * @param server - The MCP server instance
- * @param gmailService - The Gmail service instance
- * @param apodService - The NASA APOD service instance
+ * @param accounts - The configured Gmail accounts; each Gmail tool takes an optional `account`
+ * @param extensions - The enabled extensions, whose tools come after the core tools
+ * @param policy - Read-only mode and the tool allowlist; other tools aren't exposed
+ * @throws If an extension tool has the same name as another tool, or the policy names
+ *   an unknown tool
  */
-function registerTools(
-  server: Server,
-  gmailService: GmailService,
-  apodService: APODService
-): void {
+function createToolSet(
+  accounts: GmailAccounts,
+  extensions: LoadedExtension[],
+  policy: ToolPolicy
+): ToolSet {
+  const accountProperty = {
+    type: 'string',
+    enum: accounts.names,
+    description: `Optional: the Gmail account to use (see list_accounts). Default "${accounts.defaultAccount}".`,
+  };
+
+  /** Adds the optional `account` argument to a Gmail tool's input schema. */
+  function withAccountArgument(tool: McpTool): McpTool {
+    const { inputSchema } = tool.definition;
+    return {
+      ...tool,
+      definition: {
+        ...tool.definition,
+        inputSchema: {
+          ...inputSchema,
+          properties: { ...inputSchema.properties, account: accountProperty },
+        },
+      },
+    };
+  }
+
+  /**
+   * Shared by create_draft_reply and update_draft: applies the Space Edition guardrail,
+   * resolves attachments and derives the plain-text part of HTML drafts.
+   */
+  async function prepareDraftContent(
+    body: string,
+    format: DraftFormat | undefined,
+    attachments: DraftAttachmentInput[] | undefined
+  ): Promise<DraftContentOptions> {
+    const draftFormat = format ?? 'plain';
+
+    assertReplyBodyHasMainReplyBeforeSpaceEdition(body, draftFormat);
+
+    const contentType = draftFormat === 'html' ? 'text/html' : 'text/plain';
+
+    const resolvedAttachments = attachments?.length
+      ? await resolveDraftAttachments(attachments)
+      : undefined;
+
+    // Fragments extensions inserted (e.g. the Space Edition block) keep their own plain text
+    const textBody =
+      draftFormat === 'html'
+        ? buildTextAlternative(
+            body,
+            extensions.flatMap((e) => e.textEquivalents?.() ?? [])
+          )
+        : undefined;
+
+    return { contentType, textBody, attachments: resolvedAttachments };
+  }
+
+  /**
+   * Builds a tool that applies one of the fixed label changes in MAILBOX_ACTIONS.
+   */
+  function mailboxActionTool(name: string, description: string, action: MailboxAction): McpTool {
+    return {
+      definition: {
+        name,
+        description,
+        inputSchema: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            emailIds: emailIdsProperty,
+          },
+          required: ['emailIds'],
+        },
+      },
+      handler: async (args) => {
+        const { emailIds, account } = args as { emailIds: string[]; account?: string };
+        const gmailService = accounts.get(account);
+        const result = await gmailService.modifyEmails(emailIds, MAILBOX_ACTIONS[action]);
+        return { success: true, updated: result.emailIds.length, ...result };
+      },
+    };
+  }
+
   const gmailTools: McpTool[] = [
     {
       definition: {
         name: 'get_unread_emails',
+        annotations: { readOnlyHint: true },
         description:
-          'Retrieves all unread emails from the Gmail account. Returns sender, subject, body/snippet, email ID, and thread ID for each unread email.',
+          'Retrieves all unread emails from the Gmail account. Returns sender, subject, body, email ID, thread ID and attachment metadata for each unread email. Emails that could not be loaded are listed in `errors`.',
         inputSchema: {
           type: 'object',
-          properties: {},
+          additionalProperties: false,
+          properties: {
+            ...bodyFormatProperties,
+          },
         },
       },
-      handler: async () => gmailService.getUnreadEmails(),
+      handler: async (args) => {
+        const { bodyFormat, maxBodyChars, account } = (args ?? {}) as {
+          bodyFormat?: BodyFormat;
+          maxBodyChars?: number;
+          account?: string;
+        };
+        return accounts.get(account).getUnreadEmails({ bodyFormat, maxBodyChars });
+      },
     },
     {
       definition: {
-        name: 'create_draft_reply',
+        name: 'search_emails',
+        annotations: { readOnlyHint: true },
+        description:
+          'Searches the mailbox using Gmail search syntax (e.g. "from:alice@example.com label:support newer_than:7d"). Returns one page of emails plus a nextPageToken; pass it back as pageToken to get the next page.',
+        inputSchema: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            query: {
+              type: 'string',
+              description:
+                'Gmail search query, same syntax as the Gmail search box. Use an empty string to match everything.',
+            },
+            maxResults: pageSizeProperty,
+            pageToken: {
+              type: 'string',
+              description: 'Optional: nextPageToken from a previous search_emails call.',
+            },
+            labelIds: {
+              type: 'array',
+              items: { type: 'string', pattern: GMAIL_ID_PATTERN },
+              description:
+                'Optional: only return messages with all of these label IDs (e.g. "INBOX", "UNREAD", "Label_123").',
+            },
+            includeSpamTrash: {
+              type: 'boolean',
+              description: 'Optional: include messages from Spam and Trash. Default false.',
+            },
+            ...bodyFormatProperties,
+          },
+          required: ['query'],
+        },
+      },
+      handler: async (args) => {
+        const {
+          query,
+          maxResults,
+          pageToken,
+          labelIds,
+          includeSpamTrash,
+          bodyFormat,
+          maxBodyChars,
+          account,
+        } = args as {
+          query: string;
+          maxResults?: number;
+          pageToken?: string;
+          labelIds?: string[];
+          includeSpamTrash?: boolean;
+          bodyFormat?: BodyFormat;
+          maxBodyChars?: number;
+          account?: string;
+        };
+
+        return accounts.get(account).searchEmails(query, {
+          maxResults,
+          pageToken,
+          labelIds,
+          includeSpamTrash,
+          bodyFormat,
+          maxBodyChars,
+        });
+      },
+    },
+    {
+      definition: {
+        name: 'get_changes_since',
+        annotations: { readOnlyHint: true },
         description:
           [
-            'Creates a draft reply to an existing email. Maintains proper email threading by linking to the original message.',
-            '',
-            'You MUST call this tool to actually create the Gmail draft. Do not stop after fetching optional context (e.g. Space Picture of the Day).',
-            'If the tool `get_space_picture_of_the_day` is available, ask the user whether they want to include a "Did you know? Space Edition!" section.',
-            '- If user says yes: call `get_space_picture_of_the_day`, append `spaceEditionBlockHtml` after the normal reply, and set `format: "html"` so the image renders.',
-            '- If user says no: do not call the space tool; draft a normal reply.',
+            'Reports what changed in the mailbox since the previous get_changes_since call: new messages (with sender, subject and body), label changes (e.g. read/unread, archived) and deletions.',
+            'Much cheaper than get_unread_emails for repeated checks. The first call (or a call after the saved position has expired) returns all unread emails with `fullResync: true`.',
           ].join('\n'),
         inputSchema: {
           type: 'object',
+          additionalProperties: false,
           properties: {
-            emailId: {
+            ...bodyFormatProperties,
+          },
+        },
+      },
+      handler: async (args) => {
+        const { bodyFormat, maxBodyChars, account } = (args ?? {}) as {
+          bodyFormat?: BodyFormat;
+          maxBodyChars?: number;
+          account?: string;
+        };
+
+        // Each account keeps its own position in its mailbox history
+        const accountName = accounts.resolve(account);
+        const stateFile = getSyncStateFile(accountName);
+        const state = await loadSyncState(stateFile);
+        const changes = await accounts.get(accountName).getChangesSince(state?.historyId, {
+          bodyFormat,
+          maxBodyChars,
+        });
+        await saveSyncState(stateFile, {
+          historyId: changes.historyId,
+          updatedAt: new Date().toISOString(),
+        });
+
+        return { ...(state?.updatedAt && { since: state.updatedAt }), ...changes };
+      },
+    },
+    {
+      definition: {
+        name: 'get_thread',
+        annotations: { readOnlyHint: true },
+        description:
+          'Retrieves a whole email conversation (oldest message first) with sender, date, decoded body and email ID for each message. Quoted history and signatures are stripped by default. Use this before drafting a reply so the reply reflects the earlier context.',
+        inputSchema: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            threadId: idProperty('The thread ID (from get_unread_emails or search_emails)'),
+            stripQuotes: {
+              type: 'boolean',
+              description:
+                'Optional: remove quoted replies and signatures from each message. Default true.',
+            },
+          },
+          required: ['threadId'],
+        },
+      },
+      handler: async (args) => {
+        const { threadId, stripQuotes, account } = args as {
+          threadId: string;
+          stripQuotes?: boolean;
+          account?: string;
+        };
+
+        return accounts.get(account).getThread(threadId, { stripQuotes });
+      },
+    },
+    {
+      definition: {
+        name: 'get_attachment',
+        annotations: { readOnlyHint: true },
+        description:
+          'Downloads an email attachment. Text-like files (txt, csv, json, ics, eml) are returned as extracted text; other files are returned as base64 up to maxBytes, or omitted if larger.',
+        inputSchema: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            emailId: idProperty('The ID of the email containing the attachment'),
+            attachmentId: idProperty('The attachmentId from the email\'s attachments list'),
+            filename: {
               type: 'string',
+              minLength: 1,
               description:
-                'The ID of the email to reply to (from get_unread_emails)',
+                'Optional: the attachment filename, used to locate it if the attachmentId has changed',
             },
+            maxBytes: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 10 * 1024 * 1024,
+              description:
+                'Optional: maximum size of a base64 payload in bytes. Default 1048576 (1 MiB); max 10 MiB.',
+            },
+          },
+          required: ['emailId', 'attachmentId'],
+        },
+      },
+      handler: async (args) => {
+        const { emailId, attachmentId, filename, maxBytes, account } = args as {
+          emailId: string;
+          attachmentId: string;
+          filename?: string;
+          maxBytes?: number;
+          account?: string;
+        };
+
+        return accounts.get(account).getAttachment(emailId, attachmentId, { filename, maxBytes });
+      },
+    },
+    {
+      definition: {
+        name: 'create_draft_reply',
+        description:
+          [
+            'Creates a draft reply to an existing email. Maintains proper email threading by linking to the original message.',
+            'To revise a draft you already created, use `update_draft` instead of creating another one.',
+            'You MUST call this tool to actually create the draft; do not stop after fetching optional context.',
+            'A "Did you know? Space Edition!" section is only added when the user wants one: append `spaceEditionBlockHtml` from `get_space_picture_of_the_day` after the reply and set `format: "html"`.',
+          ].join('\n'),
+        inputSchema: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            emailId: idProperty('The ID of the email to reply to (from get_unread_emails)'),
             replyBody: {
               type: 'string',
+              minLength: 1,
               description: 'The body text of the reply',
             },
-            format: {
+            format: draftContentProperties.format,
+            replyMode: {
               type: 'string',
+              enum: ['sender', 'all'],
               description:
-                'Optional: "plain" (default) or "html". Use "html" if replyBody contains HTML (e.g. Space Edition block with an <img>).',
+                'Optional: "sender" (default) replies to the sender (honoring Reply-To); "all" also includes the other To and Cc recipients. Your own addresses are always excluded.',
             },
+            attachments: draftContentProperties.attachments,
           },
           required: ['emailId', 'replyBody'],
         },
       },
       handler: async (args) => {
-        const { emailId, replyBody } = (args ?? {}) as {
-          emailId?: string;
-          replyBody?: string;
-          format?: string;
+        const { emailId, replyBody, format, replyMode, attachments, account } = args as {
+          emailId: string;
+          replyBody: string;
+          format?: DraftFormat;
+          replyMode?: ReplyMode;
+          attachments?: DraftAttachmentInput[];
+          account?: string;
         };
+        const gmailService = accounts.get(account);
 
-        if (!emailId || !replyBody) {
-          throw new Error('emailId and replyBody are required');
-        }
-
-        const format = (args as { format?: string })?.format;
-        const draftFormat =
-          typeof format === 'string' && format.trim().toLowerCase() === 'html'
-            ? 'html'
-            : 'plain';
-
-        assertReplyBodyHasMainReplyBeforeSpaceEdition(replyBody, draftFormat);
-
-        const contentType = draftFormat === 'html' ? 'text/html' : 'text/plain';
+        const content = await prepareDraftContent(replyBody, format, attachments);
 
         const result = await gmailService.createDraftReply(emailId, replyBody, {
-          contentType,
+          ...content,
+          replyMode,
         });
         return {
           success: true,
@@ -210,61 +699,668 @@ function registerTools(
         };
       },
     },
+    {
+      definition: {
+        name: 'list_drafts',
+        annotations: { readOnlyHint: true },
+        description:
+          'Lists existing Gmail drafts with draft ID, thread ID, recipients, subject and snippet. Use this to find a draft to revise instead of creating a duplicate.',
+        inputSchema: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            query: {
+              type: 'string',
+              description: 'Optional: Gmail search query to filter drafts (e.g. "to:alice@example.com").',
+            },
+            maxResults: pageSizeProperty,
+            pageToken: {
+              type: 'string',
+              description: 'Optional: nextPageToken from a previous list_drafts call.',
+            },
+          },
+        },
+      },
+      handler: async (args) => {
+        const { query, maxResults, pageToken, account } = (args ?? {}) as {
+          query?: string;
+          maxResults?: number;
+          pageToken?: string;
+          account?: string;
+        };
+        return accounts.get(account).listDrafts({ query, maxResults, pageToken });
+      },
+    },
+    {
+      definition: {
+        name: 'get_draft',
+        annotations: { readOnlyHint: true },
+        description:
+          'Retrieves a draft with its recipients, subject, body (plus HTML for HTML drafts) and attachments.',
+        inputSchema: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            draftId: idProperty('The draft ID (from create_draft_reply or list_drafts)'),
+          },
+          required: ['draftId'],
+        },
+      },
+      handler: async (args) => {
+        const { draftId, account } = args as { draftId: string; account?: string };
+        return accounts.get(account).getDraft(draftId);
+      },
+    },
+    {
+      definition: {
+        name: 'update_draft',
+        description:
+          [
+            'Replaces the body of an existing draft in place. Use this to revise a draft instead of calling create_draft_reply again.',
+            'Recipients, subject and threading are kept from the existing draft. Existing attachments are kept unless `attachments` is given.',
+          ].join('\n'),
+        inputSchema: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            draftId: idProperty('The draft ID to update'),
+            body: {
+              type: 'string',
+              minLength: 1,
+              description: 'The new body of the draft (replaces the old one entirely)',
+            },
+            ...draftContentProperties,
+          },
+          required: ['draftId', 'body'],
+        },
+      },
+      handler: async (args) => {
+        const { draftId, body, format, attachments, account } = args as {
+          draftId: string;
+          body: string;
+          format?: DraftFormat;
+          attachments?: DraftAttachmentInput[];
+          account?: string;
+        };
+        const gmailService = accounts.get(account);
+
+        const content = await prepareDraftContent(body, format, attachments);
+        const result = await gmailService.updateDraft(draftId, body, content);
+        return {
+          success: true,
+          draftId: result.draftId,
+          threadId: result.threadId,
+          message: 'Draft updated successfully',
+        };
+      },
+    },
+    {
+      definition: {
+        name: 'delete_draft',
+        description: 'Permanently deletes a draft. Only use this when the user asks to discard a draft.',
+        inputSchema: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            draftId: idProperty('The draft ID to delete'),
+          },
+          required: ['draftId'],
+        },
+      },
+      handler: async (args) => {
+        const { draftId, account } = args as { draftId: string; account?: string };
+        await accounts.get(account).deleteDraft(draftId);
+        return { success: true, draftId, message: 'Draft deleted' };
+      },
+    },
+    {
+      definition: {
+        name: 'list_labels',
+        annotations: { readOnlyHint: true },
+        description:
+          'Lists the mailbox labels with their IDs, names and type (system or user). Use it to find label names for modify_labels or label IDs for search_emails.',
+        inputSchema: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {},
+        },
+      },
+      handler: async (args) => {
+        const { account } = (args ?? {}) as { account?: string };
+        return accounts.get(account).listLabels();
+      },
+    },
+    mailboxActionTool(
+      'mark_as_read',
+      'Marks emails as read, e.g. after triaging them, so get_unread_emails stops returning them.',
+      'markRead'
+    ),
+    mailboxActionTool('mark_as_unread', 'Marks emails as unread.', 'markUnread'),
+    mailboxActionTool(
+      'archive_emails',
+      'Archives emails: removes them from the inbox without deleting them. They stay searchable and keep their other labels.',
+      'archive'
+    ),
+    mailboxActionTool('star_emails', 'Stars emails.', 'star'),
+    mailboxActionTool('unstar_emails', 'Removes the star from emails.', 'unstar'),
+    {
+      definition: {
+        name: 'modify_labels',
+        description:
+          'Adds and/or removes labels on emails. Labels can be given by name (case-insensitive, e.g. "Receipts" or "Clients/Acme") or ID; use list_labels to see what exists.',
+        inputSchema: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            emailIds: emailIdsProperty,
+            addLabels: {
+              type: 'array',
+              items: { type: 'string', minLength: 1 },
+              description: 'Optional: label names or IDs to add',
+            },
+            removeLabels: {
+              type: 'array',
+              items: { type: 'string', minLength: 1 },
+              description: 'Optional: label names or IDs to remove',
+            },
+          },
+          required: ['emailIds'],
+        },
+      },
+      handler: async (args) => {
+        const { emailIds, addLabels = [], removeLabels = [], account } = args as {
+          emailIds: string[];
+          addLabels?: string[];
+          removeLabels?: string[];
+          account?: string;
+        };
+        const gmailService = accounts.get(account);
+
+        if (addLabels.length === 0 && removeLabels.length === 0) {
+          throw new ValidationError('Provide addLabels and/or removeLabels');
+        }
+
+        // Resolve both lists in one call so labels are only fetched once
+        const labelIds = await gmailService.resolveLabelIds([...addLabels, ...removeLabels]);
+        const addLabelIds = labelIds.slice(0, addLabels.length);
+        const removeLabelIds = labelIds.slice(addLabels.length);
+        const result = await gmailService.modifyEmails(emailIds, { addLabelIds, removeLabelIds });
+        return { success: true, updated: result.emailIds.length, ...result };
+      },
+    },
   ];
 
-  const nasaApodTools: McpTool[] = isSpacePictureEnabled()
-    ? createNasaApodTools(apodService).map((t) => ({
-        definition: t.definition,
-        handler: t.handler,
-      }))
+  const sendConfirmations = new SendConfirmationStore();
+  const confirmationMinutes = Math.round(DEFAULT_CONFIRMATION_TTL_MS / 60_000);
+
+  const sendTools: McpTool[] = isSendDraftEnabled()
+    ? [
+        {
+          definition: {
+            name: 'send_draft',
+            description:
+              [
+                'Sends an existing draft. This is a two-step flow:',
+                '1. Call with only `draftId`. Nothing is sent; you get a preview and a `confirmationToken`.',
+                '2. Show the preview (recipients, subject, body, attachments) to the user. Only if they explicitly approve, call again with the same `draftId` and `confirmationToken`.',
+                `The token is single-use, expires after ${confirmationMinutes} minutes, and is rejected if the draft changed after the preview.`,
+              ].join('\n'),
+            inputSchema: {
+              type: 'object',
+              additionalProperties: false,
+              properties: {
+                draftId: idProperty('The draft ID to send'),
+                confirmationToken: {
+                  type: 'string',
+                  pattern: '^[0-9a-f]{32}$',
+                  description:
+                    'Optional: the token from the preview step. Only pass it after the user has approved the preview.',
+                },
+              },
+              required: ['draftId'],
+            },
+          },
+          handler: async (args) => {
+            const { draftId, confirmationToken, account } = args as {
+              draftId: string;
+              confirmationToken?: string;
+              account?: string;
+            };
+            const gmailService = accounts.get(account);
+            // Draft IDs are per mailbox, so a token only confirms a draft in its own account
+            const confirmationKey = `${accounts.resolve(account)}/${draftId}`;
+
+            if (!confirmationToken) {
+              // Hash before reading the preview: if the draft changes in between, the
+              // token no longer matches and sending is refused rather than sending
+              // something the user didn't see.
+              const contentHash = await gmailService.getDraftContentHash(draftId);
+              const draft = await gmailService.getDraft(draftId);
+              const { token, expiresAt } = sendConfirmations.issue(
+                confirmationKey,
+                contentHash
+              );
+
+              return {
+                status: 'confirmation_required',
+                preview: {
+                  to: draft.to,
+                  cc: draft.cc,
+                  ...(draft.bcc && { bcc: draft.bcc }),
+                  subject: draft.subject,
+                  body: draft.body,
+                  attachments: draft.attachments.map((a) => a.filename),
+                },
+                confirmationToken: token,
+                expiresAt,
+                message:
+                  'Nothing has been sent. Show this preview to the user and call send_draft again with the confirmationToken only if they approve.',
+              };
+            }
+
+            const contentHash = await gmailService.getDraftContentHash(draftId);
+            sendConfirmations.consume(confirmationToken, confirmationKey, contentHash);
+
+            const result = await gmailService.sendDraft(draftId);
+            return {
+              success: true,
+              draftId,
+              emailId: result.emailId,
+              threadId: result.threadId,
+              message: 'Draft sent',
+            };
+          },
+        },
+      ]
     : [];
 
-  const allTools: McpTool[] = [...gmailTools, ...nasaApodTools];
+  const accountTools: McpTool[] = [
+    {
+      definition: {
+        name: 'list_accounts',
+        annotations: { readOnlyHint: true },
+        description:
+          'Lists the Gmail accounts this server can use, with their email address and which one is the default. Pass `account` to other tools to use a non-default account.',
+        inputSchema: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {},
+        },
+      },
+      handler: async () => {
+        return { accounts: await accounts.list() };
+      },
+    },
+  ];
+
+  const coreTools = [...[...gmailTools, ...sendTools].map(withAccountArgument), ...accountTools];
+  const extensionTools = extensions.flatMap((e) =>
+    (e.tools ?? []).map((tool) => ({ tool, source: `extension "${e.name}"` }))
+  );
+  assertUniqueNames('tool', [
+    ...coreTools.map((t) => ({ name: t.definition.name, source: 'core' })),
+    ...extensionTools.map(({ tool, source }) => ({ name: tool.definition.name, source })),
+  ]);
 
-  const toolHandlersByName: Record<string, McpToolHandler> = Object.fromEntries(
-    allTools.map((t) => [t.definition.name, t.handler])
+  const allTools: McpTool[] = [...coreTools, ...extensionTools.map(({ tool }) => tool)];
+  const tools = applyToolPolicy(
+    allTools,
+    policy,
+    sendTools.length ? {} : { send_draft: 'ENABLE_SEND_DRAFT' }
   );
+  const exposed = new Set(tools.map((t) => t.definition.name));
+  const disabledTools = new Set(
+    allTools.map((t) => t.definition.name).filter((name) => !exposed.has(name))
+  );
+
+  return { tools, disabledTools };
+}
+
+/**
+ * Registers a tool set with the MCP server.
+ *
+ * @param server - The MCP server instance
+ * @param toolSet - From createToolSet; calling a disabled tool gives POLICY_DENIED
+ * @returns The names of the registered tools
+ */
+function registerTools(server: Server, { tools, disabledTools }: ToolSet): Set<string> {
+  const toolsByName = new Map(tools.map((t) => [t.definition.name, t]));
 
   // Register tool list handler
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     return {
-      tools: allTools.map((t) => t.definition),
+      tools: tools.map((t) => t.definition),
     };
   });
 
   // Register tool call handler
   server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
+    const { name, arguments: args = {} } = request.params;
 
     try {
-      const handler = toolHandlersByName[name];
-      if (!handler) throw new Error(`Unknown tool: ${name}`);
+      const tool = toolsByName.get(name);
+      if (disabledTools.has(name)) {
+        throw new PolicyDeniedError(`The tool ${name} is disabled by the server's tool policy`);
+      }
+      if (!tool) {
+        throw new ValidationError(`Unknown tool: ${name}`, {
+          remediation: 'Call tools/list for the available tools.',
+        });
+      }
 
-      const result = await handler(args);
+      // Handlers can rely on their inputSchema: required fields are present and typed
+      const validationErrors = validateArguments(tool.definition.inputSchema as JsonSchema, args);
+      if (validationErrors.length > 0) {
+        throw new ValidationError(`Invalid arguments for ${name}`, {
+          remediation: 'Fix the fields below and call the tool again.',
+          validationErrors,
+        });
+      }
+
+      const result = await tool.handler(args);
       return createMCPResponse(result);
     } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      return createMCPResponse({ error: errorMessage }, true);
+      // Stable code, retryable flag and remediation hint (see src/errors.ts)
+      return createMCPResponse(toToolError(error).toPayload(), true);
+    }
+  });
+
+  return new Set(toolsByName.keys());
+}
+
+/**
+ * Checks once, at startup, that extensions don't reuse a prompt name or resource scheme,
+ * so every session can register them without checking again. (Tool names are checked
+ * by createToolSet.)
+ *
+ * @throws If two extensions claim the same URI scheme or one claims gmail://, or an
+ *   extension prompt has the same name as another prompt
+ */
+function assertUniqueExtensionNames(extensions: LoadedExtension[]): void {
+  assertUniqueNames('resource scheme', [
+    { name: 'gmail', source: 'core' },
+    ...extensions.flatMap((e) =>
+      e.resources ? [{ name: e.resources.scheme, source: `extension "${e.name}"` }] : []
+    ),
+  ]);
+  assertUniqueNames('prompt', [
+    ...PROMPTS.map((p) => ({ name: p.name, source: 'core' })),
+    ...extensions.flatMap((e) =>
+      (e.prompts ?? []).map((prompt) => ({
+        name: prompt.definition.name,
+        source: `extension "${e.name}"`,
+      }))
+    ),
+  ]);
+}
+
+/**
+ * Registers the gmail:// resources, and those of extensions, with the MCP server.
+ *
+ * @param server - The MCP server instance
+ * @param gmailService - The Gmail service instance
+ * @param extensions - The enabled extensions; each may own one URI scheme
+ * @param subscriptions - Subscribed resource URIs; enables resources/subscribe when given
+ */
+function registerResources(
+  server: Server,
+  gmailService: GmailService,
+  extensions: LoadedExtension[],
+  subscriptions?: Set<string>
+): void {
+  const extensionResources = extensions.flatMap((e) => (e.resources ? [e.resources] : []));
+
+  const ownerOf = (uri: string) =>
+    extensionResources.find((resources) => uri.startsWith(`${resources.scheme}://`));
+
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    const cursor = request.params?.cursor;
+    const page = await listGmailResources(gmailService, cursor);
+    if (cursor) return page;
+
+    const listed = await Promise.all(extensionResources.map((resources) => resources.list?.()));
+    return { ...page, resources: [...listed.flatMap((r) => r ?? []), ...page.resources] };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: [
+        ...RESOURCE_TEMPLATES,
+        ...extensionResources.flatMap((resources) => resources.templates ?? []),
+      ],
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    return ownerOf(uri)?.read(uri) ?? readGmailResource(gmailService, uri);
+  });
+
+  if (subscriptions) {
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      // Rejects URIs that aren't gmail:// or extension resources
+      if (!ownerOf(request.params.uri)) parseResourceUri(request.params.uri);
+      subscriptions.add(request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.delete(request.params.uri);
+      return {};
+    });
+  }
+}
+
+/**
+ * Registers the workflow prompts (triage_inbox, draft_reply, summarize_thread) and
+ * those of extensions.
+ *
+ * @param server - The MCP server instance
+ * @param gmailService - The Gmail service instance
+ * @param extensions - The enabled extensions
+ * @param toolNames - The registered tools; draft_reply is left out without create_draft_reply
+ */
+function registerPrompts(
+  server: Server,
+  gmailService: GmailService,
+  extensions: LoadedExtension[],
+  toolNames: Set<string>
+): void {
+  const options = {
+    draftGuidance: extensions.flatMap((e) => e.draftGuidance ?? []),
+    toolNames,
+  };
+  // draft_reply ends in a create_draft_reply call, so it goes when the tool does
+  const prompts = toolNames.has('create_draft_reply')
+    ? PROMPTS
+    : PROMPTS.filter((p) => p.name !== 'draft_reply');
+
+  const extensionPrompts = extensions.flatMap((e) => e.prompts ?? []);
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: [...prompts, ...extensionPrompts.map((prompt) => prompt.definition)] };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    if (PROMPTS.some((p) => p.name === name) && !prompts.some((p) => p.name === name)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+    const extensionPrompt = extensionPrompts.find((prompt) => prompt.definition.name === name);
+    return extensionPrompt
+      ? extensionPrompt.handler(args)
+      : getGmailPrompt(gmailService, name, args, options);
+  });
+}
+
+/** A connected client: its MCP server and the resource URIs it subscribed to. */
+type McpSession = {
+  server: Server;
+  subscriptions: Set<string>;
+};
+
+/**
+ * Starts the inbox watcher. When new unread mail matches the configured query it
+ * sends every connected session notifications/resources/list_changed (the inbox
+ * listing changed), notifications/resources/updated for subscribed resources the mail
+ * affects (its thread, and the INBOX and UNREAD labels), and an info log message
+ * summarizing it.
+ */
+function startInboxWatcher(
+  gmailService: GmailService,
+  config: InboxWatcherConfig,
+  sessions: Set<McpSession>
+): InboxWatcher {
+  const notifySession = async ({ server, subscriptions }: McpSession, emails: Email[]) => {
+    await server.sendResourceListChanged();
+
+    const affected = new Set([
+      ...emails.map((e) => buildResourceUri('thread', e.threadId)),
+      buildResourceUri('label', 'INBOX'),
+      buildResourceUri('label', 'UNREAD'),
+    ]);
+    for (const uri of subscriptions) {
+      if (!uri.startsWith('gmail://')) continue;
+      const { kind, id } = parseResourceUri(uri);
+      const normalized = kind === 'label' ? buildResourceUri(kind, id.toUpperCase()) : uri;
+      if (affected.has(normalized)) await server.sendResourceUpdated({ uri });
     }
+
+    await server.sendLoggingMessage({
+      level: 'info',
+      logger: 'inbox-watcher',
+      data: {
+        message: `${emails.length} new unread email(s) matching "${watcher.query}"`,
+        emails: emails.map(({ emailId, threadId, sender, subject }) => ({
+          emailId,
+          threadId,
+          sender,
+          subject,
+        })),
+      },
+    });
+  };
+
+  const watcher = new InboxWatcher(gmailService, {
+    ...config,
+    onNewMail: async (emails) => {
+      // One client going away mid-notification doesn't keep the others from hearing
+      for (const session of sessions) {
+        await notifySession(session, emails).catch((error) =>
+          console.error('Failed to notify a session about new mail:', error)
+        );
+      }
+    },
+    onError: (error) => {
+      for (const { server } of sessions) {
+        void server
+          .sendLoggingMessage({
+            level: 'warning',
+            logger: 'inbox-watcher',
+            data: `Inbox check failed: ${error instanceof Error ? error.message : String(error)}`,
+          })
+          .catch(() => undefined);
+      }
+    },
   });
+
+  watcher.start();
+  return watcher;
 }
 
 /**
  * Initialize and start the MCP server.
  */
 async function main(): Promise<void> {
-  validateEnvironment();
+  const accounts = createGmailAccounts(await validateEnvironment());
+  // Resources, prompts, the inbox watcher and extensions use the default account
+  const gmailService = accounts.get();
+  const extensions = await loadExtensions(
+    await discoverExtensions(fileURLToPath(new URL('./extensions/', import.meta.url))),
+    { gmailService }
+  );
+  const watcherConfig = getInboxWatcherConfig();
+  const httpConfig = getHttpTransportConfig();
+  const policy = readToolPolicy();
+
+  // Name collisions and a bad ALLOWED_TOOLS fail startup, before anything listens. Each
+  // HTTP session builds its own tool set; stdio uses this one
+  assertUniqueExtensionNames(extensions);
+  const toolSet = createToolSet(accounts, extensions, policy);
 
-  const gmailService = createGmailService();
-  const apodService = new APODService();
+  // Sessions whose client finished initializing; the inbox watcher notifies these
+  const sessions = new Set<McpSession>();
+  const createSessionServer = (sessionTools: ToolSet): Server => {
+    const session = {
+      server: createMCPServer({ watchInbox: Boolean(watcherConfig) }),
+      subscriptions: new Set<string>(),
+    };
+    const { server } = session;
+    const toolNames = registerTools(server, sessionTools);
+    registerResources(
+      server,
+      gmailService,
+      extensions,
+      watcherConfig ? session.subscriptions : undefined
+    );
+    registerPrompts(server, gmailService, extensions, toolNames);
 
-  const server = createMCPServer();
+    server.oninitialized = () => sessions.add(session);
+    server.onclose = () => sessions.delete(session);
+    return server;
+  };
 
+  const watcher = watcherConfig
+    ? startInboxWatcher(gmailService, watcherConfig, sessions)
+    : undefined;
+  const shutdown = async () => {
+    watcher?.stop();
+    await shutdownExtensions(extensions);
+  };
+
+  if (httpConfig) {
+    const httpServer = new McpHttpServer({
+      ...httpConfig,
+      createServer: () => createSessionServer(createToolSet(accounts, extensions, policy)),
+      onSessionStart: (id) => console.error(`MCP session ${id} started`),
+      onSessionEnd: (id) => console.error(`MCP session ${id} ended`),
+    });
+    const { address, port } = await httpServer.listen();
+
+    let stopping = false;
+    const stop = async (signal: string) => {
+      if (stopping) return;
+      stopping = true;
+      console.error(`Received ${signal}, closing sessions...`);
+      await httpServer.close();
+      await shutdown();
+      process.exit(0);
+    };
+    process.on('SIGINT', () => void stop('SIGINT'));
+    process.on('SIGTERM', () => void stop('SIGTERM'));
+
+    for (const extension of extensions) {
+      await extension.onStart?.();
+    }
+    console.error(`Gmail MCP Server listening on http://${address}:${port}${MCP_HTTP_PATH}`);
+    return;
+  }
+
+  const server = createSessionServer(toolSet);
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
-  registerTools(server, gmailService, apodService);
+  // StdioServerTransport doesn't notice the client going away; close it when stdin ends
+  process.stdin.on('end', () => void server.close());
+
+  server.onclose = () => {
+    sessions.clear();
+    void shutdown();
+  };
+
+  for (const extension of extensions) {
+    await extension.onStart?.();
+  }
 
   console.error('Gmail MCP Server running on stdio');
 }
@@ -0,0 +1,31 @@
+/**
+ * Shape of a tool as registered with the MCP server: the definition returned by
+ * tools/list and the handler that runs on tools/call. Shared by the built-in Gmail
+ * tools and by extensions.
+ */
+
+export type McpToolDefinition = {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+    /** Set to false to reject unknown arguments (see src/tool.arguments.ts). */
+    additionalProperties?: boolean;
+  };
+  /**
+   * MCP tool annotations. `readOnlyHint: true` marks a tool that doesn't change the
+   * mailbox; only those are exposed in read-only mode (see src/access.policy.ts).
+   */
+  annotations?: {
+    readOnlyHint?: boolean;
+  };
+};
+
+export type McpToolHandler = (args: unknown) => Promise<unknown>;
+
+export type McpTool = {
+  definition: McpToolDefinition;
+  handler: McpToolHandler;
+};
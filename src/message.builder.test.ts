@@ -0,0 +1,202 @@
+import {
+  buildMimeMessage,
+  encodeBase64Url,
+  encodeHeaderText,
+  encodeQuotedPrintable,
+  foldHeader,
+} from './message.builder';
+
+/** Minimal RFC 2047 "B" decoder for assertions. */
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/\r\n /g, ' ')
+    .replace(/\?= =\?/g, '?==?')
+    .replace(/=\?UTF-8\?B\?([^?]*)\?=/g, (_, b64: string) => Buffer.from(b64, 'base64').toString('utf-8'));
+}
+
+function headerBlock(raw: string): string {
+  return raw.slice(0, raw.indexOf('\r\n\r\n'));
+}
+
+describe('buildMimeMessage', () => {
+  it('builds a single-part 7bit message for ASCII bodies', () => {
+    const raw = buildMimeMessage({
+      headers: [
+        ['To', [{ email: 'bob@example.com' }]],
+        ['Subject', 'Hello'],
+      ],
+      body: 'Hi Bob\nSecond line',
+      contentType: 'text/plain',
+    });
+
+    expect(raw).toBe(
+      [
+        'To: bob@example.com',
+        'Subject: Hello',
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: 7bit',
+        '',
+        'Hi Bob',
+        'Second line',
+      ].join('\r\n')
+    );
+  });
+
+  it('RFC 2047 encodes Unicode subjects and display names', () => {
+    const subject = 'Re: Grüße aus Köln — 日本語のテキストがとても長い件名になっています';
+    const raw = buildMimeMessage({
+      headers: [
+        ['To', [{ name: 'Zoë Ångström', email: 'zoe@example.com' }]],
+        ['Subject', subject],
+      ],
+      body: 'Hallo',
+      contentType: 'text/plain',
+    });
+
+    const headers = headerBlock(raw);
+    expect(isAsciiOnly(headers)).toBe(true);
+    expect(headers.split('\r\n').every((line) => line.length <= 78)).toBe(true);
+
+    const subjectHeader = headers.match(/^Subject:([\s\S]*?)\r\nMIME-Version/m)?.[1] ?? '';
+    expect(decodeEncodedWords(subjectHeader).trim()).toBe(subject);
+    expect(decodeEncodedWords(headers)).toContain('To: Zoë Ångström <zoe@example.com>');
+  });
+
+  it('neutralises CR/LF in header values', () => {
+    const raw = buildMimeMessage({
+      headers: [
+        ['To', [{ name: 'Eve\r\nBcc: victim@example.com', email: 'eve@example.com' }]],
+        ['Subject', 'Hello\r\nBcc: victim@example.com\r\n\r\nInjected body'],
+      ],
+      body: 'Real body',
+      contentType: 'text/plain',
+    });
+
+    const headerLines = headerBlock(raw).split('\r\n');
+    expect(headerLines.some((line) => /^Bcc:/i.test(line))).toBe(false);
+    expect(raw).toContain('Subject: Hello Bcc: victim@example.com Injected body');
+  });
+
+  it('rejects hostile addresses and header names', () => {
+    expect(() =>
+      buildMimeMessage({
+        headers: [['To', [{ email: 'a@example.com>\r\nBcc: victim@example.com' }]]],
+        body: '',
+        contentType: 'text/plain',
+      })
+    ).toThrow(/Invalid email address/);
+
+    expect(() =>
+      buildMimeMessage({
+        headers: [['X-Evil\r\nBcc', 'x']],
+        body: '',
+        contentType: 'text/plain',
+      })
+    ).toThrow(/Invalid header name/);
+  });
+
+  it('quoted-printable encodes non-ASCII bodies and honours base64 when asked', () => {
+    const qp = buildMimeMessage({
+      headers: [],
+      body: 'Café ☕',
+      contentType: 'text/plain',
+    });
+    expect(qp).toContain('Content-Transfer-Encoding: quoted-printable');
+    expect(qp).toContain('Caf=C3=A9 =E2=98=95');
+
+    const b64 = buildMimeMessage({
+      headers: [],
+      body: 'Café',
+      contentType: 'text/html',
+      bodyEncoding: 'base64',
+    });
+    expect(b64).toContain('Content-Transfer-Encoding: base64');
+    expect(b64.endsWith(Buffer.from('Café').toString('base64'))).toBe(true);
+  });
+
+  it('builds multipart/alternative with the text part first for HTML bodies', () => {
+    const raw = buildMimeMessage({
+      headers: [['To', [{ email: 'bob@example.com' }]]],
+      body: '<p>Hello</p>',
+      contentType: 'text/html',
+      textAlternative: 'Hello',
+      attachments: [{ filename: 'a.txt', mimeType: 'text/plain', content: Buffer.from('a') }],
+    });
+
+    const alternative = raw.match(/multipart\/alternative; boundary="([^"]+)"/)?.[1];
+    expect(alternative).toBeDefined();
+    expect(raw).toContain('Content-Type: multipart/mixed;');
+
+    const textIndex = raw.indexOf(
+      `--${alternative}\r\nContent-Type: text/plain; charset=utf-8\r\nContent-Transfer-Encoding: 7bit\r\n\r\nHello`
+    );
+    const htmlIndex = raw.indexOf(
+      `--${alternative}\r\nContent-Type: text/html; charset=utf-8\r\nContent-Transfer-Encoding: 7bit\r\n\r\n<p>Hello</p>`
+    );
+    expect(textIndex).toBeGreaterThan(-1);
+    expect(htmlIndex).toBeGreaterThan(textIndex);
+    expect(raw).toContain(`--${alternative}--`);
+  });
+
+  it('builds multipart/mixed with base64 attachments', () => {
+    const raw = buildMimeMessage({
+      headers: [['To', [{ email: 'bob@example.com' }]]],
+      body: '<p>See attached</p>',
+      contentType: 'text/html',
+      attachments: [
+        { filename: 'report.csv', mimeType: 'text/csv', content: Buffer.from('a,b\n1,2\n') },
+        { filename: 'Übersicht.pdf', mimeType: 'application/pdf', content: Buffer.from('%PDF') },
+      ],
+    });
+
+    const boundary = raw.match(/boundary="([^"]+)"/)?.[1];
+    expect(boundary).toBeDefined();
+    expect(raw).toContain('Content-Type: multipart/mixed;');
+    expect(raw).toContain(
+      `--${boundary}\r\nContent-Type: text/html; charset=utf-8\r\nContent-Transfer-Encoding: 7bit\r\n\r\n<p>See attached</p>`
+    );
+    expect(raw).toContain('Content-Type: text/csv; name="report.csv"');
+    expect(raw).toContain('Content-Disposition: attachment; filename="report.csv"');
+    expect(raw).toContain(Buffer.from('a,b\n1,2\n').toString('base64'));
+    expect(raw).toContain("filename*=UTF-8''%C3%9Cbersicht.pdf");
+    expect(raw.endsWith(`--${boundary}--`)).toBe(true);
+  });
+});
+
+describe('encodeHeaderText', () => {
+  it('passes ASCII through and encodes everything else', () => {
+    expect(encodeHeaderText('Plain subject')).toBe('Plain subject');
+    expect(encodeHeaderText('Über')).toBe(`=?UTF-8?B?${Buffer.from('Über').toString('base64')}?=`);
+  });
+});
+
+describe('foldHeader', () => {
+  it('folds long lines at whitespace', () => {
+    const folded = foldHeader(`References: ${Array.from({ length: 6 }, (_, i) => `<message-${i}@mail.example.com>`).join(' ')}`);
+    const lines = folded.split('\r\n');
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.every((line) => line.length <= 78)).toBe(true);
+    expect(lines.slice(1).every((line) => line.startsWith(' '))).toBe(true);
+  });
+});
+
+describe('encodeQuotedPrintable', () => {
+  it('adds soft line breaks and encodes trailing whitespace', () => {
+    const encoded = encodeQuotedPrintable(`${'x'.repeat(100)}\ntrailing `);
+    const lines = encoded.split('\r\n');
+    expect(lines.every((line) => line.length <= 76)).toBe(true);
+    expect(lines[0].endsWith('=')).toBe(true);
+    expect(lines[lines.length - 1]).toBe('trailing=20');
+  });
+});
+
+describe('encodeBase64Url', () => {
+  it('uses the URL-safe alphabet without padding', () => {
+    expect(encodeBase64Url(Buffer.from([0xfb, 0xff]))).toBe('-_8');
+  });
+});
+
+function isAsciiOnly(value: string): boolean {
+  return /^[\x00-\x7f]*$/.test(value);
+}
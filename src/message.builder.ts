@@ -0,0 +1,326 @@
+import { randomBytes } from 'crypto';
+import { EmailAddress, formatAddress } from './address.parser.js';
+import { ValidationError } from './errors.js';
+
+/**
+ * Builds raw RFC 5322 / MIME messages for the Gmail API (drafts.create takes the whole
+ * message, base64url encoded, in `message.raw`).
+ *
+ * Everything that ends up in a header goes through this module, which:
+ * - strips CR/LF from header values so user or model input can't inject headers,
+ * - RFC 2047 encodes non-ASCII text (subjects, display names, attachment names),
+ * - folds long header lines at 78 characters,
+ * - transfer-encodes bodies (7bit when safe, otherwise quoted-printable or base64).
+ */
+
+export type MimeAttachment = {
+  filename: string;
+  mimeType: string;
+  content: Buffer;
+};
+
+/** A header value is either unstructured text or a list of addresses. */
+export type HeaderValue = string | EmailAddress[];
+
+export type BodyEncoding = '7bit' | 'quoted-printable' | 'base64';
+
+export type MessageSpec = {
+  /** Top-level headers in output order, e.g. [['To', [{ email: 'a@example.com' }]], ['Subject', 'Hi']]. */
+  headers: Array<[string, HeaderValue]>;
+  body: string;
+  contentType: 'text/plain' | 'text/html';
+  attachments?: MimeAttachment[];
+  /**
+   * Plain-text version of an HTML body. When set (and contentType is 'text/html'),
+   * the body is sent as multipart/alternative.
+   */
+  textAlternative?: string;
+  /** Defaults to 7bit for short-lined ASCII bodies and quoted-printable otherwise. */
+  bodyEncoding?: Exclude<BodyEncoding, '7bit'>;
+};
+
+const CRLF = '\r\n';
+const MAX_LINE_LENGTH = 78;
+/** "=?UTF-8?B?" + "?=" leaves 63 of 75 chars; 60 base64 chars = 45 bytes. */
+const MAX_ENCODED_WORD_BYTES = 45;
+
+/**
+ * Base64url encodes a raw message (Gmail requires base64url, not base64).
+ */
+export function encodeBase64Url(raw: string | Buffer): string {
+  return Buffer.from(raw)
+    .toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, ''); // Remove padding
+}
+
+function isAscii(value: string): boolean {
+  return /^[\x00-\x7f]*$/.test(value);
+}
+
+/**
+ * Replaces CR and LF (and other control characters) with spaces so a value can't
+ * terminate its header line and start a new one.
+ */
+export function sanitizeHeaderValue(value: string): string {
+  return value.replace(/[\r\n\x00-\x08\x0b\x0c\x0e-\x1f\x7f]+/g, ' ').trim();
+}
+
+function assertValidHeaderName(name: string): void {
+  // RFC 5322 field-name: printable ASCII except ':'
+  if (!/^[\x21-\x39\x3b-\x7e]+$/.test(name)) {
+    throw new ValidationError(`Invalid header name: ${JSON.stringify(name)}`);
+  }
+}
+
+/**
+ * RFC 2047 "B" encoding of a whole value, split into encoded-words that each hold
+ * whole UTF-8 characters. Words are separated by a space (which decoders drop).
+ */
+export function encodeWords(value: string): string[] {
+  const words: string[] = [];
+  let chunk = '';
+  for (const char of value) {
+    if (Buffer.byteLength(chunk + char) > MAX_ENCODED_WORD_BYTES) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+  return words.map((w) => `=?UTF-8?B?${Buffer.from(w, 'utf-8').toString('base64')}?=`);
+}
+
+/**
+ * Encodes unstructured header text: ASCII passes through, anything else becomes
+ * encoded-words.
+ */
+export function encodeHeaderText(value: string): string {
+  const clean = sanitizeHeaderValue(value);
+  return isAscii(clean) ? clean : encodeWords(clean).join(' ');
+}
+
+function encodeAddress(address: EmailAddress): string {
+  const email = address.email.trim();
+  if (!/^[^\s@<>(),;:"\\]+@[^\s@<>(),;:"\\]+$/.test(email) || !isAscii(email)) {
+    throw new ValidationError(`Invalid email address: ${JSON.stringify(address.email)}`);
+  }
+  const name = address.name ? sanitizeHeaderValue(address.name) : '';
+  if (!name) return email;
+  if (isAscii(name)) return formatAddress({ name, email });
+  return `${encodeWords(name).join(' ')} <${email}>`;
+}
+
+export function encodeAddressList(addresses: EmailAddress[]): string {
+  return addresses.map(encodeAddress).join(', ');
+}
+
+/**
+ * Folds a header line at whitespace so no line exceeds 78 characters where possible.
+ */
+export function foldHeader(line: string): string {
+  if (line.length <= MAX_LINE_LENGTH) return line;
+
+  const tokens = line.split(' ');
+  const lines: string[] = [];
+  let current = tokens.shift() ?? '';
+  for (const token of tokens) {
+    if (current.length + 1 + token.length > MAX_LINE_LENGTH) {
+      lines.push(current);
+      current = ` ${token}`;
+    } else {
+      current += ` ${token}`;
+    }
+  }
+  lines.push(current);
+  return lines.join(CRLF);
+}
+
+function formatHeader(name: string, value: HeaderValue): string {
+  assertValidHeaderName(name);
+  const encoded = typeof value === 'string' ? encodeHeaderText(value) : encodeAddressList(value);
+  return foldHeader(`${name}: ${encoded}`);
+}
+
+/**
+ * Quoted-printable encoding (RFC 2045) of UTF-8 text with CRLF line endings and
+ * soft line breaks at 76 characters.
+ */
+export function encodeQuotedPrintable(text: string): string {
+  return normalizeNewlines(text)
+    .split(CRLF)
+    .map((line) => {
+      const bytes = Buffer.from(line, 'utf-8');
+      const encoded: string[] = [];
+      bytes.forEach((byte, i) => {
+        const isLast = i === bytes.length - 1;
+        const printable = byte >= 33 && byte <= 126 && byte !== 61; // not '='
+        const whitespace = byte === 32 || byte === 9;
+        encoded.push(
+          printable || (whitespace && !isLast)
+            ? String.fromCharCode(byte)
+            : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`
+        );
+      });
+
+      const out: string[] = [];
+      let current = '';
+      for (const token of encoded) {
+        if (current.length + token.length > 75) {
+          out.push(`${current}=`);
+          current = '';
+        }
+        current += token;
+      }
+      out.push(current);
+      return out.join(CRLF);
+    })
+    .join(CRLF);
+}
+
+function normalizeNewlines(text: string): string {
+  return text.replace(/\r\n|\r|\n/g, CRLF);
+}
+
+/** Base64 with lines wrapped at 76 characters, as MIME requires. */
+function wrapBase64(content: Buffer): string {
+  return (content.toString('base64').match(/.{1,76}/g) ?? []).join(CRLF);
+}
+
+function chooseBodyEncoding(body: string, preferred?: MessageSpec['bodyEncoding']): BodyEncoding {
+  if (preferred) return preferred;
+  const longLine = body.split(/\r\n|\r|\n/).some((l) => l.length > 998);
+  return isAscii(body) && !longLine ? '7bit' : 'quoted-printable';
+}
+
+function encodeBody(body: string, encoding: BodyEncoding): string {
+  switch (encoding) {
+    case 'base64':
+      return wrapBase64(Buffer.from(normalizeNewlines(body), 'utf-8'));
+    case 'quoted-printable':
+      return encodeQuotedPrintable(body);
+    default:
+      return normalizeNewlines(body);
+  }
+}
+
+/**
+ * Builds the headers and content of a single text part.
+ */
+export function buildTextPart(
+  body: string,
+  contentType: 'text/plain' | 'text/html',
+  preferredEncoding?: MessageSpec['bodyEncoding']
+): { headers: string[]; content: string } {
+  const encoding = chooseBodyEncoding(body, preferredEncoding);
+  return {
+    headers: [
+      `Content-Type: ${contentType}; charset=utf-8`,
+      `Content-Transfer-Encoding: ${encoding}`,
+    ],
+    content: encodeBody(body, encoding),
+  };
+}
+
+function quoteParam(value: string): string {
+  return `"${value.replace(/(["\\])/g, '\\$1')}"`;
+}
+
+/**
+ * Content-Type / Content-Disposition filename parameters. Non-ASCII names use
+ * RFC 2231 (`filename*=UTF-8''…`) plus an encoded-word `name=` for older clients.
+ */
+function filenameParams(filename: string): { name: string; filename: string } {
+  const clean = sanitizeHeaderValue(filename) || 'attachment';
+  if (isAscii(clean)) {
+    return { name: `name=${quoteParam(clean)}`, filename: `filename=${quoteParam(clean)}` };
+  }
+  const extended = encodeURIComponent(clean).replace(/['()*]/g, (c) =>
+    `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return {
+    name: `name="${encodeWords(clean).join(' ')}"`,
+    filename: `filename*=UTF-8''${extended}`,
+  };
+}
+
+export function createBoundary(): string {
+  return `----=_Part_${randomBytes(12).toString('hex')}`;
+}
+
+/**
+ * The message body: a single text part, or multipart/alternative (plain text first,
+ * HTML last, so clients pick the richest version they can show) when an HTML body
+ * comes with a text alternative.
+ */
+function buildBodyEntity(spec: MessageSpec): { headers: string[]; content: string } {
+  if (spec.contentType !== 'text/html' || spec.textAlternative === undefined) {
+    return buildTextPart(spec.body, spec.contentType, spec.bodyEncoding);
+  }
+
+  const boundary = createBoundary();
+  const parts = [
+    buildTextPart(spec.textAlternative, 'text/plain', spec.bodyEncoding),
+    buildTextPart(spec.body, 'text/html', spec.bodyEncoding),
+  ];
+
+  const lines: string[] = [];
+  for (const part of parts) {
+    lines.push(`--${boundary}`);
+    lines.push(...part.headers);
+    lines.push('');
+    lines.push(part.content);
+  }
+  lines.push(`--${boundary}--`);
+
+  return {
+    headers: [`Content-Type: multipart/alternative; boundary="${boundary}"`],
+    content: lines.join(CRLF),
+  };
+}
+
+/**
+ * Builds the raw message. Without attachments the body is the whole message; with
+ * attachments it is multipart/mixed, with the body as the first part.
+ */
+export function buildMimeMessage(spec: MessageSpec): string {
+  const lines: string[] = spec.headers.map(([name, value]) => formatHeader(name, value));
+  lines.push('MIME-Version: 1.0');
+
+  const bodyPart = buildBodyEntity(spec);
+  const attachments = spec.attachments ?? [];
+
+  if (attachments.length === 0) {
+    lines.push(...bodyPart.headers);
+    lines.push(''); // Empty line separates headers from body
+    lines.push(bodyPart.content);
+    return lines.join(CRLF);
+  }
+
+  const boundary = createBoundary();
+  lines.push(`Content-Type: multipart/mixed; boundary="${boundary}"`);
+  lines.push('');
+
+  lines.push(`--${boundary}`);
+  lines.push(...bodyPart.headers);
+  lines.push('');
+  lines.push(bodyPart.content);
+
+  for (const attachment of attachments) {
+    const params = filenameParams(attachment.filename);
+    const mimeType = sanitizeHeaderValue(attachment.mimeType);
+    if (!/^[\w.+-]+\/[\w.+-]+$/.test(mimeType)) {
+      throw new ValidationError(`Invalid attachment MIME type: ${JSON.stringify(attachment.mimeType)}`);
+    }
+    lines.push(`--${boundary}`);
+    lines.push(foldHeader(`Content-Type: ${mimeType}; ${params.name}`));
+    lines.push(foldHeader(`Content-Disposition: attachment; ${params.filename}`));
+    lines.push('Content-Transfer-Encoding: base64');
+    lines.push('');
+    lines.push(wrapBase64(attachment.content));
+  }
+
+  lines.push(`--${boundary}--`);
+  return lines.join(CRLF);
+}
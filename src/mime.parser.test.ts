@@ -0,0 +1,133 @@
+import {
+  decodeCharset,
+  extractBody,
+  getHeader,
+  htmlToText,
+  isTextLikeAttachment,
+  listAttachments,
+} from './mime.parser';
+
+function b64url(text: string, encoding: BufferEncoding = 'utf-8'): string {
+  return Buffer.from(text, encoding).toString('base64url');
+}
+
+describe('extractBody', () => {
+  it('prefers text/plain inside nested multipart payloads', () => {
+    const body = extractBody({
+      mimeType: 'multipart/mixed',
+      parts: [
+        {
+          mimeType: 'multipart/alternative',
+          parts: [
+            { mimeType: 'text/plain', body: { data: b64url('Plain version') } },
+            { mimeType: 'text/html', body: { data: b64url('<p>HTML version</p>') } },
+          ],
+        },
+        {
+          mimeType: 'text/plain',
+          filename: 'notes.txt',
+          body: { attachmentId: 'att1' },
+        },
+      ],
+    });
+
+    expect(body.text).toBe('Plain version');
+    expect(body.source).toBe('text/plain');
+    expect(body.html).toBe('<p>HTML version</p>');
+  });
+
+  it('falls back to converting text/html when there is no plain part', () => {
+    const body = extractBody({
+      mimeType: 'multipart/alternative',
+      parts: [
+        {
+          mimeType: 'text/html',
+          body: { data: b64url('<div>Hi&nbsp;there,</div><p>See <b>this</b> &amp; that.</p>') },
+        },
+      ],
+    });
+
+    expect(body.source).toBe('text/html');
+    expect(body.text).toBe('Hi there,\n\nSee this & that.');
+  });
+
+  it('decodes parts using the charset from Content-Type', () => {
+    const body = extractBody({
+      mimeType: 'text/plain',
+      headers: [{ name: 'Content-Type', value: 'text/plain; charset=ISO-8859-1' }],
+      body: { data: b64url('Grüße aus Köln', 'latin1') },
+    });
+
+    expect(body.text).toBe('Grüße aus Köln');
+  });
+
+  it('returns empty text when nothing readable is present', () => {
+    expect(extractBody(undefined)).toEqual({ text: '' });
+    expect(
+      extractBody({ mimeType: 'application/pdf', filename: 'a.pdf', body: {} })
+    ).toEqual({ text: '' });
+  });
+});
+
+describe('htmlToText', () => {
+  it('drops styles and scripts and keeps list structure', () => {
+    const text = htmlToText(
+      '<html><head><style>p{color:red}</style></head><body><script>x()</script><ul><li>One</li><li>Two</li></ul></body></html>'
+    );
+    expect(text).toBe('- One\n- Two');
+  });
+
+  it('decodes numeric entities', () => {
+    expect(htmlToText('caf&#233; &#x2014; ok')).toBe('café — ok');
+  });
+});
+
+describe('decodeCharset', () => {
+  it('falls back to utf-8 for unknown charsets', () => {
+    expect(decodeCharset(Buffer.from('héllo'), 'x-unknown-charset')).toBe('héllo');
+  });
+});
+
+describe('getHeader', () => {
+  it('matches header names case-insensitively', () => {
+    expect(getHeader([{ name: 'Message-Id', value: '<a@b>' }], 'Message-ID')).toBe('<a@b>');
+    expect(getHeader(undefined, 'From')).toBe('');
+  });
+});
+
+describe('listAttachments', () => {
+  it('returns metadata for nested parts with a filename', () => {
+    const attachments = listAttachments({
+      mimeType: 'multipart/mixed',
+      parts: [
+        { mimeType: 'text/plain', body: { data: b64url('Hi') } },
+        {
+          mimeType: 'multipart/related',
+          parts: [
+            {
+              mimeType: 'image/png',
+              filename: 'logo.png',
+              body: { attachmentId: 'att-logo', size: 100 },
+            },
+          ],
+        },
+        { mimeType: 'text/calendar', filename: 'invite.ics', body: { attachmentId: 'att-ics', size: 7 } },
+      ],
+    });
+
+    expect(attachments).toEqual([
+      { filename: 'logo.png', mimeType: 'image/png', size: 100, attachmentId: 'att-logo' },
+      { filename: 'invite.ics', mimeType: 'text/calendar', size: 7, attachmentId: 'att-ics' },
+    ]);
+  });
+});
+
+describe('isTextLikeAttachment', () => {
+  it('recognises text types and extensions', () => {
+    expect(isTextLikeAttachment('text/csv', 'data.csv')).toBe(true);
+    expect(isTextLikeAttachment('message/rfc822', 'forwarded.eml')).toBe(true);
+    expect(isTextLikeAttachment('application/octet-stream', 'export.json')).toBe(true);
+    expect(isTextLikeAttachment('application/pdf', 'report.pdf')).toBe(false);
+    expect(isTextLikeAttachment('application/octet-stream', 'json')).toBe(false);
+  });
+});
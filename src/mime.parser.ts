@@ -0,0 +1,298 @@
+import { gmail_v1 } from 'googleapis';
+
+/**
+ * MIME parsing helpers for Gmail API message payloads.
+ *
+ * The Gmail API already undoes the Content-Transfer-Encoding of each part, so
+ * `part.body.data` is the raw content bytes, base64url encoded. What's left for us
+ * is walking the part tree, picking the readable parts and decoding their charset.
+ */
+
+export type MessagePart = gmail_v1.Schema$MessagePart;
+export type MessageHeader = gmail_v1.Schema$MessagePartHeader;
+
+export type AttachmentInfo = {
+  filename: string;
+  mimeType: string;
+  /** Size in bytes as reported by Gmail. */
+  size: number;
+  /** Pass to users.messages.attachments.get to download the content. */
+  attachmentId: string;
+};
+
+export type ExtractedBody = {
+  /** Plain-text rendering of the message (converted from HTML if there is no text/plain part). */
+  text: string;
+  /** The raw HTML part, if the message has one. */
+  html?: string;
+  /** Which part type `text` was taken from, or undefined if no readable part was found. */
+  source?: 'text/plain' | 'text/html';
+};
+
+/**
+ * Case-insensitive header lookup. Returns '' when the header is missing.
+ */
+export function getHeader(
+  headers: MessageHeader[] | undefined | null,
+  name: string
+): string {
+  const wanted = name.toLowerCase();
+  return headers?.find((h) => h.name?.toLowerCase() === wanted)?.value ?? '';
+}
+
+/**
+ * Decodes Gmail's base64url encoding (no padding, '-' and '_' alphabet) into bytes.
+ */
+export function decodeBase64Url(data: string): Buffer {
+  const base64 = data.replace(/-/g, '+').replace(/_/g, '/');
+  const padding = base64.length % 4;
+  return Buffer.from(base64 + (padding ? '='.repeat(4 - padding) : ''), 'base64');
+}
+
+/**
+ * Returns the charset parameter of a Content-Type header value, lowercased.
+ */
+export function parseCharset(contentType: string): string | undefined {
+  const match = contentType.match(/charset\s*=\s*"?([^";\s]+)"?/i);
+  return match?.[1]?.toLowerCase();
+}
+
+/**
+ * Decodes bytes using the given charset. Unknown or unsupported charsets fall back
+ * to UTF-8 rather than failing the whole message.
+ */
+export function decodeCharset(bytes: Buffer, charset?: string): string {
+  const label = charset && charset !== 'us-ascii' ? charset : 'utf-8';
+  try {
+    return new TextDecoder(label).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  copy: '©',
+  reg: '®',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+};
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const n =
+        code[1] === 'x' || code[1] === 'X'
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) && n > 0 && n <= 0x10ffff ? String.fromCodePoint(n) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Replaces <a href> elements with their label plus a "[n]" marker and returns the
+ * collected URLs. Links whose label is already the URL are left inline.
+ */
+function extractLinkFootnotes(html: string): { html: string; links: string[] } {
+  const links: string[] = [];
+  const replaced = html.replace(
+    /<a\b[^>]*?\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))[^>]*>([\s\S]*?)<\/a\s*>/gi,
+    (_match, dq: string | undefined, sq: string | undefined, bare: string | undefined, inner: string) => {
+      const href = decodeHtmlEntities((dq ?? sq ?? bare ?? '').trim());
+      const label = decodeHtmlEntities(inner.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+
+      if (!href || href.startsWith('#')) return inner;
+      // Image-only links and links labelled with their own URL are shown inline.
+      if (!label) return ` ${href} `;
+      if (label === href || `mailto:${label}` === href) return inner;
+
+      let index = links.indexOf(href) + 1;
+      if (index === 0) index = links.push(href);
+      return `${inner} [${index}]`;
+    }
+  );
+  return { html: replaced, links };
+}
+
+/**
+ * Converts an HTML email body into readable plain text.
+ *
+ * This is not a full HTML renderer: it drops non-visible elements, turns block-level
+ * tags into line breaks, strips the remaining markup and decodes entities. With
+ * `linkFootnotes`, links become "label [1]" with the URLs listed at the end.
+ */
+export function htmlToText(html: string, options?: { linkFootnotes?: boolean }): string {
+  let links: string[] = [];
+  if (options?.linkFootnotes) {
+    ({ html, links } = extractLinkFootnotes(html));
+  }
+
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|head|title)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/(div|tr)\s*>/gi, '\n')
+    .replace(/<\/?(p|h[1-6]|table|blockquote|ul|ol|hr)\b[^>]*>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  const body = decodeHtmlEntities(text)
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  if (links.length === 0) return body;
+  return `${body}\n\n${links.map((url, i) => `[${i + 1}] ${url}`).join('\n')}`;
+}
+
+/**
+ * Decodes the body of a single (leaf) MIME part using the charset from its Content-Type.
+ */
+export function decodePartBody(part: MessagePart): string {
+  const data = part.body?.data;
+  if (!data) return '';
+  const charset = parseCharset(getHeader(part.headers, 'Content-Type'));
+  return decodeCharset(decodeBase64Url(data), charset);
+}
+
+function isAttachment(part: MessagePart): boolean {
+  if (part.filename) return true;
+  return /^\s*attachment\b/i.test(getHeader(part.headers, 'Content-Disposition'));
+}
+
+function collectTextParts(
+  part: MessagePart,
+  found: { plain: string[]; html: string[] }
+): void {
+  // RFC 2045: a part without a Content-Type is text/plain.
+  const mimeType = (part.mimeType || 'text/plain').toLowerCase();
+
+  if (part.parts?.length) {
+    for (const child of part.parts) collectTextParts(child, found);
+    return;
+  }
+
+  if (isAttachment(part)) return;
+
+  if (mimeType === 'text/plain') {
+    const text = decodePartBody(part);
+    if (text.trim()) found.plain.push(text);
+  } else if (mimeType === 'text/html') {
+    const html = decodePartBody(part);
+    if (html.trim()) found.html.push(html);
+  }
+}
+
+/**
+ * Walks a Gmail message payload and returns its readable body.
+ *
+ * Inline text/plain parts are preferred. If a message only carries HTML, the HTML is
+ * converted to text. Attachments (parts with a filename or an attachment disposition)
+ * are ignored.
+ */
+export function extractBody(payload: MessagePart | undefined | null): ExtractedBody {
+  if (!payload) return { text: '' };
+
+  const found = { plain: [] as string[], html: [] as string[] };
+  collectTextParts(payload, found);
+
+  const html = found.html.length ? found.html.join('\n') : undefined;
+
+  if (found.plain.length) {
+    return {
+      text: found.plain.join('\n\n').replace(/\r\n?/g, '\n').trim(),
+      html,
+      source: 'text/plain',
+    };
+  }
+
+  if (html) {
+    return { text: htmlToText(html), html, source: 'text/html' };
+  }
+
+  return { text: '' };
+}
+
+/**
+ * Lists the attachments in a message payload (any part with a filename whose content
+ * has to be fetched separately via users.messages.attachments.get).
+ */
+export function listAttachments(payload: MessagePart | undefined | null): AttachmentInfo[] {
+  const attachments: AttachmentInfo[] = [];
+
+  const walk = (part: MessagePart): void => {
+    if (part.parts?.length) {
+      for (const child of part.parts) walk(child);
+      return;
+    }
+    if (part.filename && part.body?.attachmentId) {
+      attachments.push({
+        filename: part.filename,
+        mimeType: part.mimeType || 'application/octet-stream',
+        size: part.body.size ?? 0,
+        attachmentId: part.body.attachmentId,
+      });
+    }
+  };
+
+  if (payload) walk(payload);
+  return attachments;
+}
+
+/**
+ * Finds the part for an attachment. Gmail may issue a different attachmentId on each
+ * fetch of the same message, so the filename is used as a fallback.
+ */
+export function findAttachmentPart(
+  payload: MessagePart | undefined | null,
+  attachmentId: string,
+  filename?: string
+): MessagePart | undefined {
+  const candidates: MessagePart[] = [];
+  const walk = (part: MessagePart): void => {
+    if (part.body?.attachmentId) candidates.push(part);
+    for (const child of part.parts ?? []) walk(child);
+  };
+  if (payload) walk(payload);
+
+  return (
+    candidates.find((p) => p.body?.attachmentId === attachmentId) ??
+    (filename ? candidates.find((p) => p.filename === filename) : undefined)
+  );
+}
+
+const TEXT_LIKE_MIME_TYPES = new Set([
+  'application/json',
+  'application/ics',
+  'application/csv',
+  'application/xml',
+  'message/rfc822',
+]);
+
+const TEXT_LIKE_EXTENSIONS = new Set(['txt', 'csv', 'tsv', 'json', 'ics', 'eml', 'md', 'log', 'xml']);
+
+/**
+ * Whether an attachment can be returned as text (txt, csv, json, ics, eml and other text/* types).
+ * Generic types such as application/octet-stream are decided by the file extension.
+ */
+export function isTextLikeAttachment(mimeType: string, filename: string): boolean {
+  const type = mimeType.toLowerCase().split(';')[0].trim();
+  if (type.startsWith('text/') || TEXT_LIKE_MIME_TYPES.has(type)) return true;
+
+  const ext = filename.toLowerCase().split('.').pop() ?? '';
+  return filename.includes('.') && TEXT_LIKE_EXTENSIONS.has(ext);
+}
@@ -0,0 +1,148 @@
+import { createHash } from 'crypto';
+import { PassThrough } from 'stream';
+import {
+  createAuthorizationRequest,
+  DEFAULT_OAUTH_PORT,
+  OAuthCallbackServer,
+  parseAuthorizationResponse,
+  parseOAuthPort,
+  waitForAuthorizationCode,
+} from './oauth.flow';
+
+describe('createAuthorizationRequest', () => {
+  it('derives the S256 challenge from a fresh verifier and state', () => {
+    const first = createAuthorizationRequest();
+    const second = createAuthorizationRequest();
+
+    expect(first.codeChallenge).toBe(
+      createHash('sha256').update(first.codeVerifier).digest('base64url')
+    );
+    expect(first.codeVerifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(first.state).not.toBe(second.state);
+  });
+});
+
+describe('parseOAuthPort', () => {
+  it('defaults to 3000 and prefers the command line over GMAIL_OAUTH_PORT', () => {
+    expect(parseOAuthPort(undefined, {})).toBe(DEFAULT_OAUTH_PORT);
+    expect(parseOAuthPort(undefined, { GMAIL_OAUTH_PORT: '0' })).toBe(0);
+    expect(parseOAuthPort('8765', { GMAIL_OAUTH_PORT: '0' })).toBe(8765);
+  });
+
+  it('rejects ports that are not integers from 0 to 65535', () => {
+    expect(() => parseOAuthPort('http', {})).toThrow(/Invalid OAuth callback port "http"/);
+    expect(() => parseOAuthPort('70000', {})).toThrow(/Invalid OAuth callback port/);
+  });
+});
+
+describe('parseAuthorizationResponse', () => {
+  it('reads the code from a redirect URL or its query string', () => {
+    const url = 'http://localhost:3000/oauth2callback?state=s1&code=4/abc&scope=x';
+
+    expect(parseAuthorizationResponse(url, 's1')).toBe('4/abc');
+    expect(parseAuthorizationResponse('  ?code=4/abc&state=s1 ', 's1')).toBe('4/abc');
+  });
+
+  it('accepts a bare code', () => {
+    expect(parseAuthorizationResponse('4/0Abc-def', 's1')).toBe('4/0Abc-def');
+  });
+
+  it('rejects a wrong state, a denied authorization and a missing code', () => {
+    expect(() => parseAuthorizationResponse('?code=c&state=other', 's1')).toThrow(/wrong state/);
+    expect(() => parseAuthorizationResponse('?error=access_denied&state=s1', 's1')).toThrow(
+      'Authorization was denied: access_denied'
+    );
+    expect(() => parseAuthorizationResponse('?error=access_denied', 's1')).toThrow(/wrong state/);
+    expect(() => parseAuthorizationResponse('?state=s1', 's1')).toThrow(/No authorization code/);
+    expect(() => parseAuthorizationResponse(' ', 's1')).toThrow(/No authorization code/);
+  });
+});
+
+describe('OAuthCallbackServer', () => {
+  let server: OAuthCallbackServer;
+
+  beforeEach(async () => {
+    server = await OAuthCallbackServer.listen(0);
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('resolves with the code from a callback carrying the right state', async () => {
+    const code = server.waitForCode('s1');
+
+    const response = await fetch(`${server.redirectUri}?code=c1&state=s1`);
+
+    expect(response.status).toBe(200);
+    await expect(code).resolves.toBe('c1');
+  });
+
+  it('ignores callbacks with the wrong or no state and resolves on the valid one', async () => {
+    const code = server.waitForCode('s1');
+
+    const forged = await fetch(`${server.redirectUri}?code=c1&state=forged`);
+    const denied = await fetch(`${server.redirectUri}?error=access_denied`);
+    const valid = await fetch(`${server.redirectUri}?code=c2&state=s1`);
+
+    expect([forged.status, denied.status, valid.status]).toEqual([400, 400, 200]);
+    await expect(code).resolves.toBe('c2');
+  });
+
+  it('rejects when a callback with the right state reports an error', async () => {
+    const code = expect(server.waitForCode('s1')).rejects.toThrow(
+      'Authorization was denied: access_denied'
+    );
+
+    const response = await fetch(`${server.redirectUri}?error=access_denied&state=s1`);
+
+    expect(response.status).toBe(400);
+    await code;
+  });
+
+  it('ignores other paths', async () => {
+    server.waitForCode('s1');
+
+    const response = await fetch(`http://localhost:${server.port}/favicon.ico`);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('explains how to pick another port when the port is taken', async () => {
+    await expect(OAuthCallbackServer.listen(server.port)).rejects.toThrow(
+      `Port ${server.port} is already in use`
+    );
+  });
+});
+
+describe('waitForAuthorizationCode', () => {
+  let server: OAuthCallbackServer;
+
+  beforeEach(async () => {
+    server = await OAuthCallbackServer.listen(0);
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('accepts the redirect URL pasted into the terminal, asking again after a bad one', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const written: string[] = [];
+    output.on('data', (chunk) => written.push(String(chunk)));
+
+    const code = waitForAuthorizationCode({ state: 's1', callbackServer: server, input, output });
+    input.write('?code=c1&state=stale\n');
+    input.write(`${server.redirectUri}?code=c2&state=s1\n`);
+
+    await expect(code).resolves.toBe('c2');
+    expect(written.join('')).toMatch(/wrong state/);
+  });
+
+  it('times out when no code arrives', async () => {
+    await expect(
+      waitForAuthorizationCode({ state: 's1', callbackServer: server, timeoutMs: 20 })
+    ).rejects.toThrow('Authorization timeout');
+  });
+});
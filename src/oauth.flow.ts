@@ -0,0 +1,260 @@
+import { createHash, randomBytes } from 'crypto';
+import { createServer, Server as NodeHttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { createInterface } from 'readline';
+
+/**
+ * The browser half of `npm run auth`: the PKCE pair and `state` sent with the
+ * authorization request, and the two ways the authorization code comes back:
+ *
+ * - a local callback server the browser is redirected to, on a configurable port (0
+ *   picks a free one)
+ * - the redirect URL (or just the code) pasted into the terminal, for machines without
+ *   a browser, e.g. over SSH
+ *
+ * A callback whose `state` doesn't match is rejected and ignored, so another site can
+ * neither complete the flow with its own code nor end it with a forged error.
+ */
+
+export const DEFAULT_OAUTH_PORT = 3000;
+export const OAUTH_CALLBACK_PATH = '/oauth2callback';
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+const PASTE_PROMPT = 'Paste the URL your browser was redirected to (or the code): ';
+
+type Env = Record<string, string | undefined>;
+
+export type AuthorizationRequest = {
+  /** Random value the callback must echo back. */
+  state: string;
+  /** PKCE secret sent with the token exchange. */
+  codeVerifier: string;
+  /** SHA-256 of the verifier, sent with the authorization request. */
+  codeChallenge: string;
+};
+
+export type WaitForCodeOptions = {
+  state: string;
+  callbackServer: OAuthCallbackServer;
+  /** Also accept the redirect URL or code pasted here, e.g. process.stdin. */
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+  /** Default 5 minutes. */
+  timeoutMs?: number;
+};
+
+function base64Url(buffer: Buffer): string {
+  return buffer.toString('base64url');
+}
+
+export function createAuthorizationRequest(): AuthorizationRequest {
+  const codeVerifier = base64Url(randomBytes(32));
+  return {
+    state: base64Url(randomBytes(32)),
+    codeVerifier,
+    codeChallenge: base64Url(createHash('sha256').update(codeVerifier).digest()),
+  };
+}
+
+/**
+ * Reads the callback port from `--port` or GMAIL_OAUTH_PORT. Defaults to 3000, the port in
+ * the redirect URI .env.example registers; 0 picks a free port.
+ *
+ * @throws If the port isn't an integer from 0 to 65535
+ */
+export function parseOAuthPort(raw: string | undefined, env: Env = process.env): number {
+  const value = (raw ?? env.GMAIL_OAUTH_PORT)?.trim();
+  if (!value) return DEFAULT_OAUTH_PORT;
+
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid OAuth callback port "${value}": use a number from 0 to 65535`);
+  }
+  return port;
+}
+
+/**
+ * Extracts the authorization code from a redirect URL, its query string, or a bare code.
+ * A URL must carry the expected `state`; a bare code can't be checked, but is still
+ * bound to this flow by PKCE.
+ *
+ * @throws If the user denied access, the state doesn't match, or there is no code
+ */
+export function parseAuthorizationResponse(input: string, expectedState: string): string {
+  const value = input.trim();
+  if (!value) throw new Error('No authorization code given');
+
+  const queryStart = value.indexOf('?');
+  if (queryStart === -1 && !value.includes('=')) return value;
+
+  const params = new URLSearchParams(queryStart === -1 ? value : value.slice(queryStart + 1));
+  // State first, so a forged `?error=` can't end the flow
+  if (params.get('state') !== expectedState) {
+    throw new Error(
+      'Authorization response has the wrong state. It may belong to an older attempt or another site; run npm run auth again.'
+    );
+  }
+  const error = params.get('error');
+  if (error) throw new Error(`Authorization was denied: ${error}`);
+
+  const code = params.get('code');
+  if (!code) throw new Error('No authorization code received');
+  return code;
+}
+
+/** The local server the browser is redirected to with the authorization code. */
+export class OAuthCallbackServer {
+  private readonly server: NodeHttpServer;
+  private expectedState?: string;
+  private onResult?: (result: { code: string } | { error: Error }) => void;
+
+  private constructor() {
+    this.server = createServer((req, res) => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      if (url.pathname !== OAUTH_CALLBACK_PATH || !this.onResult || !this.expectedState) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not found');
+        return;
+      }
+
+      // A stale tab, a prefetch or a forged request from another page: answer it but keep
+      // waiting, so only a callback from this flow can end it
+      if (url.searchParams.get('state') !== this.expectedState) {
+        res
+          .writeHead(400, { 'Content-Type': 'text/plain' })
+          .end('Authorization failed. The response has the wrong state; this window can be closed.');
+        return;
+      }
+
+      try {
+        const code = parseAuthorizationResponse(url.search, this.expectedState);
+        res.writeHead(200, { 'Content-Type': 'text/html' }).end(`
+          <html>
+            <body>
+              <h1>Authorization successful!</h1>
+              <p>You can close this window and return to the terminal.</p>
+            </body>
+          </html>
+        `);
+        this.onResult({ code });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        res.writeHead(400, { 'Content-Type': 'text/plain' }).end(`Authorization failed. ${message}`);
+        this.onResult({ error: error instanceof Error ? error : new Error(message) });
+      }
+    });
+  }
+
+  /**
+   * Starts listening on localhost.
+   *
+   * @throws With a hint to pick another port when the port is taken
+   */
+  static async listen(port: number): Promise<OAuthCallbackServer> {
+    const callbackServer = new OAuthCallbackServer();
+    const { server } = callbackServer;
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', (error: NodeJS.ErrnoException) => {
+        if (error.code !== 'EADDRINUSE') {
+          reject(error);
+          return;
+        }
+        reject(
+          new Error(
+            `Port ${port} is already in use. Stop whatever is using it, or pick another port with --port or GMAIL_OAUTH_PORT (0 picks a free one) and allow its redirect URI in your OAuth client.`
+          )
+        );
+      });
+      server.listen(port, 'localhost', () => resolve());
+    });
+    return callbackServer;
+  }
+
+  get port(): number {
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  get redirectUri(): string {
+    return `http://localhost:${this.port}${OAUTH_CALLBACK_PATH}`;
+  }
+
+  /**
+   * Resolves with the code from the first callback carrying `expectedState`, or rejects if
+   * that callback reports an error. Callbacks with another state are ignored.
+   */
+  waitForCode(expectedState: string): Promise<string> {
+    this.expectedState = expectedState;
+    return new Promise((resolve, reject) => {
+      this.onResult = (result) => {
+        this.onResult = undefined;
+        if ('code' in result) resolve(result.code);
+        else reject(result.error);
+      };
+    });
+  }
+
+  async close(): Promise<void> {
+    this.onResult = undefined;
+    const closed = new Promise<void>((resolve) => this.server.close(() => resolve()));
+    // The browser's keep-alive connection would otherwise hold the process open
+    this.server.closeAllConnections();
+    await closed;
+  }
+}
+
+/** Reads pasted lines until one parses, so a typo doesn't end the flow. */
+async function promptForCode(
+  input: NodeJS.ReadableStream,
+  output: NodeJS.WritableStream | undefined,
+  state: string,
+  signal: AbortSignal
+): Promise<string> {
+  const rl = createInterface({ input, terminal: false });
+  const close = () => rl.close();
+  signal.addEventListener('abort', close, { once: true });
+  try {
+    output?.write(PASTE_PROMPT);
+    for await (const line of rl) {
+      try {
+        return parseAuthorizationResponse(line, state);
+      } catch (error) {
+        output?.write(`${error instanceof Error ? error.message : String(error)}\n${PASTE_PROMPT}`);
+      }
+    }
+    throw new Error('Input ended before an authorization code was pasted');
+  } finally {
+    signal.removeEventListener('abort', close);
+    rl.close();
+  }
+}
+
+/**
+ * Waits for the authorization code from the callback server, or from the terminal when
+ * `input` is given, whichever comes first. The timeout and prompt are cleaned up either
+ * way, so the process can exit as soon as the flow ends.
+ *
+ * @throws On timeout, a failed callback, or a denied authorization
+ */
+export async function waitForAuthorizationCode(options: WaitForCodeOptions): Promise<string> {
+  const { state, callbackServer, input, output } = options;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const abort = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const sources = [
+    callbackServer.waitForCode(state),
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error('Authorization timeout. Please try again.')),
+        timeoutMs
+      );
+    }),
+  ];
+  if (input) sources.push(promptForCode(input, output, state, abort.signal));
+
+  try {
+    return await Promise.race(sources);
+  } finally {
+    clearTimeout(timer);
+    abort.abort();
+  }
+}
@@ -0,0 +1,54 @@
+import { stripQuotedText } from './quote.stripper';
+
+describe('stripQuotedText', () => {
+  it('removes Gmail-style quoted replies', () => {
+    const text = [
+      'Sounds good, see you then.',
+      '',
+      'On Mon, Jan 5, 2026 at 10:00 AM Alice <alice@example.com> wrote:',
+      '> Can we meet on Tuesday?',
+      '> Alice',
+    ].join('\n');
+
+    expect(stripQuotedText(text)).toBe('Sounds good, see you then.');
+  });
+
+  it('handles attribution lines wrapped over two lines', () => {
+    const text = [
+      'Thanks!',
+      '',
+      'On Mon, Jan 5, 2026 at 10:00 AM Alice Example <',
+      'alice@example.com> wrote:',
+      '> Earlier message',
+    ].join('\n');
+
+    expect(stripQuotedText(text)).toBe('Thanks!');
+  });
+
+  it('removes Outlook header blocks and localized attributions', () => {
+    const outlook = [
+      'Approved.',
+      '',
+      'From: Bob <bob@example.com>',
+      'Sent: Monday, January 5, 2026 10:00 AM',
+      'To: Carol <carol@example.com>',
+      'Subject: Budget',
+      '',
+      'Please approve the budget.',
+    ].join('\n');
+    expect(stripQuotedText(outlook)).toBe('Approved.');
+
+    const german = ['Danke!', '', 'Am 05.01.2026 um 10:00 schrieb Alice <alice@example.com>:', '> Hallo'].join('\n');
+    expect(stripQuotedText(german)).toBe('Danke!');
+  });
+
+  it('removes signatures and mobile boilerplate', () => {
+    expect(stripQuotedText('Hi Bob,\n\nDone.\n\n-- \nAlice\nACME Corp')).toBe('Hi Bob,\n\nDone.');
+    expect(stripQuotedText('On my way.\n\nSent from my iPhone')).toBe('On my way.');
+  });
+
+  it('keeps the original text when stripping would leave nothing', () => {
+    const forward = '---------- Forwarded message ---------\nFrom: Bob\n\nFYI';
+    expect(stripQuotedText(forward)).toBe(forward);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Heuristics for removing quoted history and signatures from plain-text email bodies,
+ * so a thread can be read message by message without every reply repeating the
+ * whole conversation.
+ *
+ * These are deliberately conservative: when no marker is recognised the text is
+ * returned unchanged.
+ */
+
+/** Attribution lines that introduce a quoted reply ("On <date>, <name> wrote:"). */
+const ATTRIBUTION_PATTERNS: RegExp[] = [
+  /^On\b.+\bwrote:$/i,
+  /^Am\b.+\bschrieb\b.*:$/i,
+  /^Le\b.+\ba écrit\s?:$/i,
+  /^El\b.+\bescribió:$/i,
+  /^Il giorno\b.+\bha scritto:$/i,
+  /^Op\b.+\bschreef\b.*:$/i,
+];
+
+/** Separators that start a forwarded or quoted original (Outlook and friends). */
+const SEPARATOR_PATTERNS: RegExp[] = [
+  /^-{2,}\s*Original Message\s*-{2,}$/i,
+  /^-{2,}\s*Forwarded message\s*-{2,}$/i,
+  /^_{10,}$/,
+];
+
+/** Mobile and client boilerplate that acts as a signature. */
+const BOILERPLATE_PATTERNS: RegExp[] = [
+  /^Sent from my \w+/i,
+  /^Get Outlook for \w+/i,
+  /^Sent from (Mail|Yahoo Mail|Outlook) for \w+/i,
+];
+
+function matchesAny(line: string, patterns: RegExp[]): boolean {
+  return patterns.some((p) => p.test(line));
+}
+
+/**
+ * Outlook quotes as a header block: "From: …" followed within a few lines by
+ * "Sent: …"/"Date: …" and "To: …" or "Subject: …".
+ */
+function isOutlookHeaderBlock(lines: string[], index: number): boolean {
+  if (!/^\*?From:\*?\s/i.test(lines[index])) return false;
+  const following = lines.slice(index + 1, index + 5).join('\n');
+  return /^\*?(Sent|Date):\*?\s/im.test(following) && /^\*?(To|Subject):\*?\s/im.test(following);
+}
+
+/**
+ * Returns the index of the first line belonging to quoted history, or -1.
+ */
+function findQuoteStart(lines: string[]): number {
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    if (matchesAny(line, SEPARATOR_PATTERNS) || isOutlookHeaderBlock(lines, i)) return i;
+    if (matchesAny(line, ATTRIBUTION_PATTERNS)) return i;
+
+    // Attribution lines are often wrapped onto two lines by the sending client.
+    const next = lines[i + 1]?.trim();
+    if (next && matchesAny(`${line} ${next}`, ATTRIBUTION_PATTERNS)) return i;
+  }
+  return -1;
+}
+
+/**
+ * Returns the index of the first signature line, or -1.
+ */
+function findSignatureStart(lines: string[]): number {
+  for (let i = 0; i < lines.length; i++) {
+    // RFC 3676 signature delimiter is "-- " (dash dash space); many clients drop the space.
+    if (lines[i] === '-- ' || lines[i] === '--') return i;
+    if (matchesAny(lines[i].trim(), BOILERPLATE_PATTERNS)) return i;
+  }
+  return -1;
+}
+
+/**
+ * Strips quoted replies, forwarded originals and signatures from a plain-text body.
+ */
+export function stripQuotedText(text: string): string {
+  let lines = text.replace(/\r\n?/g, '\n').split('\n');
+
+  const quoteStart = findQuoteStart(lines);
+  if (quoteStart !== -1) lines = lines.slice(0, quoteStart);
+
+  // Drop any remaining "> " quoted lines (inline or bottom-posted quotes).
+  lines = lines.filter((line) => !/^\s*>/.test(line));
+
+  const signatureStart = findSignatureStart(lines);
+  if (signatureStart !== -1) lines = lines.slice(0, signatureStart);
+
+  const stripped = lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+
+  // Never strip a message down to nothing (e.g. a pure forward); keep the original instead.
+  return stripped || text.trim();
+}
@@ -0,0 +1,52 @@
+import { computeReplyRecipients } from './reply.recipients';
+
+const own = ['me@example.com', 'alias@example.com'];
+
+describe('computeReplyRecipients', () => {
+  it('replies to Reply-To when present in sender mode', () => {
+    expect(
+      computeReplyRecipients(
+        { from: 'alice@example.com', replyTo: 'list@example.com', to: 'me@example.com' },
+        'sender',
+        own
+      )
+    ).toEqual({ to: [{ email: 'list@example.com' }], cc: [] });
+  });
+
+  it('keeps other To and Cc recipients in reply-all mode, without duplicates or own addresses', () => {
+    expect(
+      computeReplyRecipients(
+        {
+          from: 'Alice <alice@example.com>',
+          to: 'me@example.com, bob@example.com, ALICE@example.com',
+          cc: 'alias@example.com, bob@example.com, carol@example.com',
+        },
+        'all',
+        own
+      )
+    ).toEqual({
+      to: [{ name: 'Alice', email: 'alice@example.com' }, { email: 'bob@example.com' }],
+      cc: [{ email: 'carol@example.com' }],
+    });
+  });
+
+  it('replies to the original recipients when the user sent the message', () => {
+    expect(
+      computeReplyRecipients(
+        { from: 'Me <me@example.com>', to: 'bob@example.com', cc: 'carol@example.com' },
+        'all',
+        own
+      )
+    ).toEqual({ to: [{ email: 'bob@example.com' }], cc: [{ email: 'carol@example.com' }] });
+  });
+
+  it('promotes Cc to To when no primary recipient remains', () => {
+    expect(
+      computeReplyRecipients(
+        { from: 'me@example.com', to: 'alias@example.com', cc: 'carol@example.com' },
+        'all',
+        own
+      )
+    ).toEqual({ to: [{ email: 'carol@example.com' }], cc: [] });
+  });
+});
@@ -0,0 +1,56 @@
+import { dedupeAddresses, EmailAddress, parseAddressList } from './address.parser.js';
+
+export type ReplyMode = 'sender' | 'all';
+
+export type ReplyRecipients = {
+  to: EmailAddress[];
+  cc: EmailAddress[];
+};
+
+/**
+ * Works out who a reply goes to, the way mail clients do.
+ *
+ * - 'sender' replies to Reply-To if present, otherwise From.
+ * - 'all' additionally keeps the original To recipients and Cc list.
+ * - Replying to a message the user sent themselves goes to that message's recipients
+ *   instead of back to the user.
+ * - The user's own addresses (`ownAddresses`, including send-as aliases) are never
+ *   included, and duplicates are removed.
+ */
+export function computeReplyRecipients(
+  original: { from: string; replyTo?: string; to?: string; cc?: string },
+  mode: ReplyMode,
+  ownAddresses: Iterable<string>
+): ReplyRecipients {
+  const own = new Set(Array.from(ownAddresses, (a) => a.toLowerCase()));
+  const from = parseAddressList(original.from);
+  const replyTo = parseAddressList(original.replyTo);
+  const originalTo = parseAddressList(original.to);
+  const originalCc = parseAddressList(original.cc);
+
+  const sentByMe = from.length > 0 && from.every((a) => own.has(a.email.toLowerCase()));
+
+  let to: EmailAddress[];
+  let cc: EmailAddress[] = [];
+
+  if (sentByMe) {
+    to = originalTo;
+    if (mode === 'all') cc = originalCc;
+  } else {
+    to = replyTo.length ? replyTo : from;
+    if (mode === 'all') {
+      to = [...to, ...originalTo];
+      cc = originalCc;
+    }
+  }
+
+  to = dedupeAddresses(to, own);
+  cc = dedupeAddresses(cc, [...own, ...to.map((a) => a.email)]);
+
+  // If every To address was the user, promote Cc so the reply still has a primary recipient.
+  if (to.length === 0 && cc.length > 0) {
+    return { to: cc, cc: [] };
+  }
+
+  return { to, cc };
+}
@@ -0,0 +1,48 @@
+import { buildReferences, buildReplySubject } from './reply.threading';
+
+describe('buildReplySubject', () => {
+  it.each([
+    ['Quarterly report', 'Re: Quarterly report'],
+    ['Re: Quarterly report', 'Re: Quarterly report'],
+    ['RE: Quarterly report', 'Re: Quarterly report'],
+    ['Aw: Quarterly report', 'Re: Quarterly report'],
+    ['Sv: SV: Quarterly report', 'Re: Quarterly report'],
+    ['Re[2]: Quarterly report', 'Re: Quarterly report'],
+    ['Re: AW: Re(3): Quarterly report', 'Re: Quarterly report'],
+    ['回复：季度报告', 'Re: 季度报告'],
+    ['Fwd: Quarterly report', 'Re: Fwd: Quarterly report'],
+    ['Regarding the report', 'Re: Regarding the report'],
+  ])('%s -> %s', (subject, expected) => {
+    expect(buildReplySubject(subject)).toBe(expected);
+  });
+
+  it('recognises configured extra prefixes', () => {
+    expect(buildReplySubject('Trả lời: Báo cáo', ['Trả lời'])).toBe('Re: Báo cáo');
+    expect(buildReplySubject('Trả lời: Báo cáo')).toBe('Re: Trả lời: Báo cáo');
+  });
+});
+
+describe('buildReferences', () => {
+  it('appends the parent Message-ID to its References chain', () => {
+    expect(
+      buildReferences({
+        messageId: '<c@example.com>',
+        references: '<a@example.com>\r\n <b@example.com>',
+      })
+    ).toBe('<a@example.com> <b@example.com> <c@example.com>');
+  });
+
+  it('falls back to In-Reply-To when References is missing', () => {
+    expect(buildReferences({ messageId: '<c@example.com>', inReplyTo: '<b@example.com>' })).toBe(
+      '<b@example.com> <c@example.com>'
+    );
+  });
+
+  it('keeps the thread root and the latest IDs for long chains', () => {
+    const chain = Array.from({ length: 30 }, (_, i) => `<m${i}@example.com>`).join(' ');
+    const refs = buildReferences({ messageId: '<last@example.com>', references: chain }).split(' ');
+    expect(refs).toHaveLength(20);
+    expect(refs[0]).toBe('<m0@example.com>');
+    expect(refs[refs.length - 1]).toBe('<last@example.com>');
+  });
+});
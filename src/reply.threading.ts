@@ -0,0 +1,115 @@
+/**
+ * Threading helpers for replies: the References chain and the "Re:" subject prefix.
+ *
+ * Mail clients group a conversation by References / In-Reply-To and by subject.
+ * Outlook, Apple Mail and localized clients use different reply prefixes ("AW:",
+ * "Sv:", "Re[2]:"), so a naive "Re: " check produces "Re: AW: Re: …" chains that
+ * some clients then treat as a new thread.
+ */
+
+/**
+ * Reply prefixes used by common clients in various languages. Matched case-insensitively.
+ * Forward prefixes (Fwd, WG, TR…) are intentionally not included: replying to a forward
+ * keeps it ("Re: Fwd: …"), as every major client does.
+ */
+export const DEFAULT_REPLY_PREFIXES = [
+  'Re', // English and most others
+  'Aw', // German (Antwort)
+  'Antw', // Dutch
+  'Sv', // Swedish, Norwegian, Danish (Svar)
+  'Vs', // Finnish (Vastaus)
+  'Odp', // Polish
+  'Ynt', // Turkish
+  'Rif', // Italian
+  'Réf', // French
+  'Res', // Portuguese (Resposta)
+  'Atb', // Latvian
+  'Vá', // Hungarian
+  'Odg', // Croatian
+  'Απ', // Greek
+  'ΣΧΕΤ', // Greek
+  'Отв', // Russian
+  '回复', // Chinese (simplified)
+  '回覆', // Chinese (traditional)
+  '答复', // Chinese
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Builds a matcher for one or more leading reply prefixes, including counted forms
+ * such as "Re[2]:", "Re(2):", "Re^2:" and full-width colons.
+ */
+function replyPrefixPattern(prefixes: string[]): RegExp {
+  const alternatives = prefixes
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  return new RegExp(
+    `^(?:\\s*(?:${alternatives})\\s*(?:\\[\\d+\\]|\\(\\d+\\)|\\^\\d+)?\\s*[:：]\\s*)+`,
+    'iu'
+  );
+}
+
+/**
+ * Returns the subject for a reply: any number of leading reply prefixes are collapsed
+ * into a single "Re: ".
+ *
+ * @param extraPrefixes - Additional prefixes to recognise (e.g. from REPLY_PREFIXES).
+ */
+export function buildReplySubject(subject: string, extraPrefixes: string[] = []): string {
+  const pattern = replyPrefixPattern([...DEFAULT_REPLY_PREFIXES, ...extraPrefixes]);
+  const base = subject.replace(pattern, '').trim();
+  return `Re: ${base}`;
+}
+
+/**
+ * Reads extra reply prefixes from the REPLY_PREFIXES environment variable
+ * (comma-separated, e.g. "Ats,Trả lời").
+ */
+export function getConfiguredReplyPrefixes(): string[] {
+  const raw = process.env.REPLY_PREFIXES;
+  if (!raw) return [];
+  return raw
+    .split(',')
+    .map((p) => p.trim())
+    .filter(Boolean);
+}
+
+/** Keeps References under a sane size, as RFC 5322 §3.6.4 allows trimming. */
+const MAX_REFERENCES = 20;
+
+function extractMessageIds(value: string): string[] {
+  return value.match(/<[^<>\s]+>/g) ?? [];
+}
+
+/**
+ * Builds the References header for a reply: the parent's References (or its
+ * In-Reply-To when References is missing) followed by the parent's Message-ID.
+ *
+ * Long chains keep the first (thread root) and the most recent IDs.
+ */
+export function buildReferences(parent: {
+  messageId: string;
+  references?: string;
+  inReplyTo?: string;
+}): string {
+  const chain = extractMessageIds(parent.references || parent.inReplyTo || '');
+  const parentIds = extractMessageIds(parent.messageId);
+  // Tolerate a Message-ID without angle brackets rather than dropping it.
+  if (parentIds.length === 0 && parent.messageId.trim()) parentIds.push(parent.messageId.trim());
+
+  const ids = [...chain, ...parentIds];
+  const unique = ids.filter((id, i) => ids.indexOf(id) === i);
+
+  const trimmed =
+    unique.length > MAX_REFERENCES
+      ? [unique[0], ...unique.slice(unique.length - (MAX_REFERENCES - 1))]
+      : unique;
+
+  return trimmed.join(' ');
+}
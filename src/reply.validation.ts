@@ -1,3 +1,5 @@
+import { ValidationError } from './errors.js';
+
 export type DraftFormat = 'plain' | 'html';
 
 /**
@@ -25,7 +27,7 @@ export function assertReplyBodyHasMainReplyBeforeSpaceEdition(
       .replace(/\s+/g, ' ')
       .trim();
     if (prefixText.length === 0) {
-      throw new Error(
+      throw new ValidationError(
         'replyBody appears to contain only the Space Edition section. Write the email reply FIRST, then append the Space Edition block after it (use format="html" if embedding the image).'
       );
     }
@@ -34,7 +36,7 @@ export function assertReplyBodyHasMainReplyBeforeSpaceEdition(
 
   // plain
   if (prefix.trim().length === 0) {
-    throw new Error(
+    throw new ValidationError(
       'replyBody appears to contain only the Space Edition section. Write the email reply FIRST, then append the Space Edition block after it.'
     );
   }
@@ -0,0 +1,142 @@
+import { getRetryAfterMs, isRetryableError, RequestQueue } from './request.queue';
+
+function apiError(status: number, options?: { reason?: string; retryAfter?: string }) {
+  return Object.assign(new Error(`HTTP ${status}`), {
+    code: status,
+    errors: options?.reason ? [{ reason: options.reason }] : undefined,
+    response: {
+      status,
+      headers: options?.retryAfter ? { 'Retry-After': options.retryAfter } : {},
+    },
+  });
+}
+
+describe('isRetryableError', () => {
+  it.each([
+    [apiError(429), true],
+    [apiError(403, { reason: 'userRateLimitExceeded' }), true],
+    [apiError(403, { reason: 'rateLimitExceeded' }), true],
+    [apiError(503), true],
+    [Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }), true],
+    [apiError(403, { reason: 'insufficientPermissions' }), false],
+    [apiError(404), false],
+    [apiError(400), false],
+    [new Error('boom'), false],
+  ])('%s -> %s', (error, expected) => {
+    expect(isRetryableError(error)).toBe(expected);
+  });
+});
+
+describe('getRetryAfterMs', () => {
+  it('reads delays in seconds and HTTP dates', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    expect(getRetryAfterMs(apiError(429, { retryAfter: '3' }), now)).toBe(3000);
+    expect(
+      getRetryAfterMs(apiError(429, { retryAfter: 'Thu, 01 Jan 2026 00:00:05 GMT' }), now)
+    ).toBe(5000);
+    expect(getRetryAfterMs(apiError(429), now)).toBeUndefined();
+  });
+});
+
+describe('RequestQueue', () => {
+  let sleep: jest.Mock;
+
+  beforeEach(() => {
+    sleep = jest.fn().mockResolvedValue(undefined);
+  });
+
+  it('never runs more than `concurrency` requests at once', async () => {
+    const queue = new RequestQueue({ concurrency: 2 });
+    let active = 0;
+    let maxActive = 0;
+
+    const request = async (value: number) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return value;
+    };
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map((n) => queue.run(() => request(n))));
+
+    expect(results).toEqual([1, 2, 3, 4, 5]);
+    expect(maxActive).toBe(2);
+  });
+
+  it('retries with exponential backoff and jitter', async () => {
+    const queue = new RequestQueue({ sleep, random: () => 0.5, baseDelayMs: 100 });
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce(apiError(503))
+      .mockRejectedValueOnce(apiError(429))
+      .mockRejectedValueOnce(apiError(403, { reason: 'userRateLimitExceeded' }))
+      .mockResolvedValueOnce('ok');
+
+    await expect(queue.run(request)).resolves.toBe('ok');
+
+    // ceiling 100, 200, 400 -> half fixed plus half of it scaled by random()
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([75, 150, 300]);
+  });
+
+  it('waits for Retry-After instead of the computed delay', async () => {
+    const queue = new RequestQueue({ sleep });
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce(apiError(429, { retryAfter: '7' }))
+      .mockResolvedValueOnce('ok');
+
+    await expect(queue.run(request)).resolves.toBe('ok');
+    expect(sleep).toHaveBeenCalledWith(7000);
+  });
+
+  it('fails instead of retrying early when Retry-After exceeds maxDelayMs', async () => {
+    const queue = new RequestQueue({ sleep, maxDelayMs: 5000 });
+    const request = jest.fn().mockRejectedValue(apiError(429, { retryAfter: '60' }));
+
+    await expect(queue.run(request)).rejects.toThrow('HTTP 429');
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after maxRetries', async () => {
+    const queue = new RequestQueue({ sleep, maxRetries: 2 });
+    const request = jest.fn().mockRejectedValue(apiError(500));
+
+    await expect(queue.run(request)).rejects.toThrow('HTTP 500');
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry errors that are not transient', async () => {
+    const queue = new RequestQueue({ sleep });
+    const request = jest.fn().mockRejectedValue(apiError(404));
+
+    await expect(queue.run(request)).rejects.toThrow('HTTP 404');
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('only retries non-idempotent requests after rate limiting', async () => {
+    const queue = new RequestQueue({ sleep });
+
+    const failedSend = jest.fn().mockRejectedValue(apiError(503));
+    await expect(queue.run(failedSend, { idempotent: false })).rejects.toThrow('HTTP 503');
+    expect(failedSend).toHaveBeenCalledTimes(1);
+
+    const throttledSend = jest.fn().mockRejectedValueOnce(apiError(429)).mockResolvedValue('sent');
+    await expect(queue.run(throttledSend, { idempotent: false })).resolves.toBe('sent');
+  });
+
+  it('reports each item of a batch separately', async () => {
+    const queue = new RequestQueue();
+
+    const results = await queue.settle([1, 2, 3], async (n) => {
+      if (n === 2) throw new Error('bad item');
+      return n * 10;
+    });
+
+    expect(results).toEqual([
+      { item: 1, ok: true, value: 10 },
+      { item: 2, ok: false, error: new Error('bad item') },
+      { item: 3, ok: true, value: 30 },
+    ]);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Request layer for Gmail API calls: limits how many requests are in flight and
+ * retries rate-limit and transient errors with exponential backoff.
+ *
+ * Gmail enforces per-user quotas and answers bursts with 429 or 403
+ * `userRateLimitExceeded` / `rateLimitExceeded`. Backoff delays use "equal jitter"
+ * (half fixed, half random) so parallel requests don't retry in lockstep, and a
+ * Retry-After header, when present, replaces the computed delay.
+ */
+
+export type RequestQueueOptions = {
+  /** Maximum number of requests in flight. Default 10. */
+  concurrency?: number;
+  /** Retries after the first attempt. Default 4. */
+  maxRetries?: number;
+  /** Delay before the first retry; doubles on each further retry. Default 500 ms. */
+  baseDelayMs?: number;
+  /**
+   * Upper bound for a single backoff delay. A Retry-After asking for a longer wait
+   * fails the request instead of retrying early. Default 30 s.
+   */
+  maxDelayMs?: number;
+  /** Overridable for tests. */
+  sleep?: (ms: number) => Promise<void>;
+  /** Overridable for tests. Returns a number in [0, 1). */
+  random?: () => number;
+};
+
+/** Outcome of one item in RequestQueue.settle, in input order. */
+export type Settled<T, R> =
+  | { item: T; ok: true; value: R }
+  | { item: T; ok: false; error: unknown };
+
+const RETRYABLE_STATUSES = new Set([500, 502, 503, 504]);
+const RATE_LIMIT_REASONS = new Set(['rateLimitExceeded', 'userRateLimitExceeded']);
+const RETRYABLE_NETWORK_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN']);
+
+/** HTTP status of a googleapis (Gaxios) error, if any. */
+export function errorStatus(error: unknown): number | undefined {
+  const e = error as { code?: unknown; status?: unknown; response?: { status?: unknown } } | null;
+  const status = Number(e?.response?.status ?? e?.code ?? e?.status);
+  return Number.isFinite(status) ? status : undefined;
+}
+
+/** Error reasons from a Gaxios error (`errors[].reason` in the Google API error body). */
+function errorReasons(error: unknown): string[] {
+  const e = error as {
+    errors?: Array<{ reason?: unknown }>;
+    response?: { data?: { error?: { errors?: Array<{ reason?: unknown }> } } };
+  } | null;
+  const errors = e?.errors ?? e?.response?.data?.error?.errors ?? [];
+  return errors.map((err) => String(err?.reason ?? ''));
+}
+
+/**
+ * True when Gmail rejected the request for exceeding a quota (429, or 403 with a
+ * rate-limit reason). The request was not carried out, so it is always safe to retry.
+ */
+export function isRateLimitError(error: unknown): boolean {
+  const status = errorStatus(error);
+  if (status === 429) return true;
+  return status === 403 && errorReasons(error).some((r) => RATE_LIMIT_REASONS.has(r));
+}
+
+/**
+ * True for errors worth retrying: rate limits, server errors and dropped connections.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (isRateLimitError(error)) return true;
+
+  const status = errorStatus(error);
+  if (status !== undefined && RETRYABLE_STATUSES.has(status)) return true;
+
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && RETRYABLE_NETWORK_CODES.has(code);
+}
+
+/**
+ * Reads Retry-After (delay in seconds, or an HTTP date) from an error response.
+ */
+export function getRetryAfterMs(error: unknown, now = Date.now()): number | undefined {
+  const headers = (error as { response?: { headers?: unknown } } | null)?.response?.headers;
+  if (!headers || typeof headers !== 'object') return undefined;
+
+  const value =
+    typeof (headers as Headers).get === 'function'
+      ? (headers as Headers).get('retry-after')
+      : Object.entries(headers).find(([name]) => name.toLowerCase() === 'retry-after')?.[1];
+  if (value === undefined || value === null) return undefined;
+
+  const text = String(value).trim();
+  if (/^\d+$/.test(text)) return Number(text) * 1000;
+
+  const date = Date.parse(text);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export class RequestQueue {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private concurrency: number;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private sleep: (ms: number) => Promise<void>;
+  private random: () => number;
+
+  constructor(options?: RequestQueueOptions) {
+    this.concurrency = Math.max(1, Math.floor(options?.concurrency ?? 10));
+    this.maxRetries = Math.max(0, Math.floor(options?.maxRetries ?? 4));
+    this.baseDelayMs = options?.baseDelayMs ?? 500;
+    this.maxDelayMs = options?.maxDelayMs ?? 30_000;
+    this.sleep = options?.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    this.random = options?.random ?? Math.random;
+  }
+
+  /**
+   * Runs one API request once a slot is free, retrying it when it fails with a
+   * retryable error. The slot is held during backoff, so a rate-limited burst slows
+   * down instead of piling on more requests.
+   *
+   * Requests that aren't safe to repeat (creating or sending a draft) should pass
+   * `idempotent: false`: they are then only retried after a rate-limit error, since a
+   * server error or dropped connection may come after the request already took effect.
+   *
+   * `request` must not call `run` itself, or nested calls could wait on each other's slots.
+   */
+  async run<T>(request: () => Promise<T>, options?: { idempotent?: boolean }): Promise<T> {
+    const idempotent = options?.idempotent ?? true;
+    await this.acquire();
+    try {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await request();
+        } catch (error) {
+          const retryable = idempotent ? isRetryableError(error) : isRateLimitError(error);
+          const delay =
+            retryable && attempt < this.maxRetries ? this.retryDelay(error, attempt) : undefined;
+          if (delay === undefined) throw error;
+          await this.sleep(delay);
+        }
+      }
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Applies `task` to every item and reports each outcome separately, so one failed
+   * item doesn't discard the others. Concurrency is limited by the `run` calls
+   * inside `task`.
+   */
+  async settle<T, R>(items: T[], task: (item: T) => Promise<R>): Promise<Array<Settled<T, R>>> {
+    return Promise.all(
+      items.map((item) =>
+        task(item).then(
+          (value): Settled<T, R> => ({ item, ok: true, value }),
+          (error): Settled<T, R> => ({ item, ok: false, error })
+        )
+      )
+    );
+  }
+
+  private retryDelay(error: unknown, attempt: number): number | undefined {
+    const retryAfter = getRetryAfterMs(error);
+    if (retryAfter !== undefined) {
+      return retryAfter <= this.maxDelayMs ? retryAfter : undefined;
+    }
+
+    const ceiling = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+    return Math.round(ceiling / 2 + this.random() * (ceiling / 2));
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.concurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    // The releasing request hands its slot over, so `active` stays unchanged.
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
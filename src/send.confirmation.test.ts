@@ -0,0 +1,47 @@
+import { SendConfirmationStore } from './send.confirmation';
+
+describe('SendConfirmationStore', () => {
+  let now: number;
+  let store: SendConfirmationStore;
+
+  beforeEach(() => {
+    now = Date.parse('2026-01-01T00:00:00Z');
+    store = new SendConfirmationStore({ ttlMs: 60_000, now: () => now });
+  });
+
+  it('issues a token that expires after the TTL', () => {
+    const { token, expiresAt } = store.issue('draft1', 'hash1');
+
+    expect(token).toMatch(/^[0-9a-f]{32}$/);
+    expect(expiresAt).toBe('2026-01-01T00:01:00.000Z');
+  });
+
+  it('accepts a matching token once', () => {
+    const { token } = store.issue('draft1', 'hash1');
+
+    expect(() => store.consume(token, 'draft1', 'hash1')).not.toThrow();
+    expect(() => store.consume(token, 'draft1', 'hash1')).toThrow(/invalid or has expired/);
+  });
+
+  it('rejects unknown and expired tokens', () => {
+    const { token } = store.issue('draft1', 'hash1');
+
+    expect(() => store.consume('not-a-token', 'draft1', 'hash1')).toThrow(/invalid or has expired/);
+
+    now += 60_000;
+    expect(() => store.consume(token, 'draft1', 'hash1')).toThrow(/invalid or has expired/);
+  });
+
+  it('rejects a token issued for another draft', () => {
+    const { token } = store.issue('draft1', 'hash1');
+
+    expect(() => store.consume(token, 'draft2', 'hash1')).toThrow(/different draft/);
+  });
+
+  it('rejects a changed draft and invalidates the token', () => {
+    const { token } = store.issue('draft1', 'hash1');
+
+    expect(() => store.consume(token, 'draft1', 'hash2')).toThrow(/changed since the preview/);
+    expect(() => store.consume(token, 'draft1', 'hash1')).toThrow(/invalid or has expired/);
+  });
+});
@@ -0,0 +1,76 @@
+import { randomBytes } from 'crypto';
+import { ValidationError } from './errors.js';
+
+/**
+ * One-time confirmation tokens for send_draft.
+ *
+ * Sending is a two-step flow: the first call returns a preview and a token bound to
+ * the draft ID and a hash of the draft's content; the second call sends only if it
+ * passes back the same token before it expires and the draft still hashes the same.
+ * Tokens live in memory, so restarting the server invalidates them.
+ */
+
+export const DEFAULT_CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+type PendingConfirmation = {
+  draftId: string;
+  contentHash: string;
+  expiresAt: number;
+};
+
+export class SendConfirmationStore {
+  private pending = new Map<string, PendingConfirmation>();
+  private ttlMs: number;
+  private now: () => number;
+
+  constructor(options?: { ttlMs?: number; now?: () => number }) {
+    this.ttlMs = options?.ttlMs ?? DEFAULT_CONFIRMATION_TTL_MS;
+    this.now = options?.now ?? Date.now;
+  }
+
+  /**
+   * Issues a token for sending `draftId` as long as its content still hashes to `contentHash`.
+   */
+  issue(draftId: string, contentHash: string): { token: string; expiresAt: string } {
+    this.pruneExpired();
+
+    const token = randomBytes(16).toString('hex');
+    const expiresAt = this.now() + this.ttlMs;
+    this.pending.set(token, { draftId, contentHash, expiresAt });
+
+    return { token, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  /**
+   * Checks a token against the draft about to be sent and uses it up. A token is
+   * single-use: it is removed even when the check fails, so a changed draft always
+   * needs a fresh preview.
+   *
+   * @throws If the token is unknown, expired, issued for another draft, or the draft changed.
+   */
+  consume(token: string, draftId: string, contentHash: string): void {
+    const confirmation = this.pending.get(token);
+    this.pending.delete(token);
+
+    if (!confirmation || confirmation.expiresAt <= this.now()) {
+      throw new ValidationError(
+        'Confirmation token is invalid or has expired. Call send_draft without confirmationToken to get a new preview.'
+      );
+    }
+    if (confirmation.draftId !== draftId) {
+      throw new ValidationError('Confirmation token was issued for a different draft');
+    }
+    if (confirmation.contentHash !== contentHash) {
+      throw new ValidationError(
+        'The draft has changed since the preview was shown. Call send_draft without confirmationToken to review it again.'
+      );
+    }
+  }
+
+  private pruneExpired(): void {
+    const now = this.now();
+    for (const [token, confirmation] of this.pending) {
+      if (confirmation.expiresAt <= now) this.pending.delete(token);
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { mkdtempSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getSyncStateFile, loadSyncState, saveSyncState } from './sync.state';
+
+describe('sync state', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'sync-state-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    delete process.env.GMAIL_SYNC_STATE_FILE;
+  });
+
+  it('round-trips the cursor through the state file', async () => {
+    const file = join(root, 'nested', 'state.json');
+    await saveSyncState(file, { historyId: '12345', updatedAt: '2026-01-01T00:00:00.000Z' });
+
+    await expect(loadSyncState(file)).resolves.toEqual({
+      historyId: '12345',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    });
+    expect(statSync(file).mode & 0o777).toBe(0o600);
+  });
+
+  it('returns undefined for a missing, corrupt or invalid state file', async () => {
+    await expect(loadSyncState(join(root, 'missing.json'))).resolves.toBeUndefined();
+
+    writeFileSync(join(root, 'corrupt.json'), '{"historyId": ');
+    await expect(loadSyncState(join(root, 'corrupt.json'))).resolves.toBeUndefined();
+
+    writeFileSync(join(root, 'invalid.json'), '{"historyId": "abc"}');
+    await expect(loadSyncState(join(root, 'invalid.json'))).resolves.toBeUndefined();
+  });
+
+  it('reads the state file location from GMAIL_SYNC_STATE_FILE', () => {
+    expect(getSyncStateFile()).toBe(join(process.cwd(), '.gmail-sync-state.json'));
+
+    process.env.GMAIL_SYNC_STATE_FILE = join(root, 'state.json');
+    expect(getSyncStateFile()).toBe(join(root, 'state.json'));
+  });
+
+  it('keeps a separate state file per named account', () => {
+    process.env.GMAIL_SYNC_STATE_FILE = join(root, 'state.json');
+
+    expect(getSyncStateFile('default')).toBe(join(root, 'state.json'));
+    expect(getSyncStateFile('work')).toBe(join(root, 'state.work.json'));
+  });
+});
@@ -0,0 +1,66 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, extname, resolve } from 'path';
+import { DEFAULT_ACCOUNT } from './gmail.accounts.js';
+
+/**
+ * Persists the Gmail History API cursor used by get_changes_since, so each call only
+ * reports what changed since the previous one, even across server restarts.
+ */
+
+export type SyncState = {
+  /** The mailbox historyId at the end of the last sync. */
+  historyId: string;
+  /** ISO timestamp of the last sync. */
+  updatedAt: string;
+};
+
+const DEFAULT_SYNC_STATE_FILE = '.gmail-sync-state.json';
+
+/**
+ * Reads the state file location from GMAIL_SYNC_STATE_FILE. Relative paths (and the
+ * default, .gmail-sync-state.json) resolve against the working directory, like .env.
+ *
+ * Each named account other than the default keeps its own cursor next to it, e.g.
+ * .gmail-sync-state.work.json.
+ */
+export function getSyncStateFile(account?: string): string {
+  const file = resolve(process.env.GMAIL_SYNC_STATE_FILE?.trim() || DEFAULT_SYNC_STATE_FILE);
+  if (!account || account === DEFAULT_ACCOUNT) return file;
+
+  const extension = extname(file);
+  return `${file.slice(0, file.length - extension.length)}.${account}${extension}`;
+}
+
+/**
+ * Loads the saved cursor. Returns undefined when there is no state file yet or it
+ * can't be read, in which case the caller does a full resync.
+ */
+export async function loadSyncState(file: string): Promise<SyncState | undefined> {
+  let content: string;
+  try {
+    content = await readFile(file, 'utf-8');
+  } catch {
+    return undefined;
+  }
+
+  try {
+    const state = JSON.parse(content) as Partial<SyncState>;
+    if (typeof state.historyId !== 'string' || !/^\d+$/.test(state.historyId)) {
+      return undefined;
+    }
+    return { historyId: state.historyId, updatedAt: String(state.updatedAt ?? '') };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Saves the cursor. Writes to a temporary file and renames it so a crash mid-write
+ * can't leave a truncated state file behind.
+ */
+export async function saveSyncState(file: string, state: SyncState): Promise<void> {
+  await mkdir(dirname(file), { recursive: true });
+  const tmpFile = `${file}.${process.pid}.tmp`;
+  await writeFile(tmpFile, `${JSON.stringify(state, null, 2)}\n`, { mode: 0o600 });
+  await rename(tmpFile, file);
+}
@@ -0,0 +1,34 @@
+import { buildTextAlternative } from './text.alternative';
+
+describe('buildTextAlternative', () => {
+  it('converts HTML to text with links as footnotes', () => {
+    const text = buildTextAlternative(
+      '<p>Hi Bob,</p><p>See <a href="https://example.com/report?a=1&amp;b=2">the report</a> and <a href="https://example.com">https://example.com</a>.</p>'
+    );
+
+    expect(text).toBe(
+      'Hi Bob,\n\nSee the report [1] and https://example.com.\n\n[1] https://example.com/report?a=1&b=2'
+    );
+  });
+
+  it('substitutes known HTML blocks with their plain-text equivalents', () => {
+    const blockHtml =
+      '<hr/>\n<h3>Did you know? Space Edition!</h3>\n<div><a href="https://apod.nasa.gov/x.jpg"><img src="https://apod.nasa.gov/x.jpg" /></a></div>';
+    const blockText = 'Did you know? Space Edition!\nMedia: https://apod.nasa.gov/x.jpg';
+
+    const text = buildTextAlternative(
+      `<p>Thanks, <a href="https://example.com/faq">see the FAQ</a>.</p>${blockHtml}`,
+      [{ html: blockHtml, text: blockText }]
+    );
+
+    expect(text).toBe(
+      `Thanks, see the FAQ [1].\n\n${blockText}\n\n[1] https://example.com/faq`
+    );
+  });
+
+  it('ignores equivalents that do not appear in the HTML', () => {
+    expect(buildTextAlternative('<p>Hello</p>', [{ html: '<p>Other</p>', text: 'Other' }])).toBe(
+      'Hello'
+    );
+  });
+});
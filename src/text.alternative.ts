@@ -0,0 +1,42 @@
+import { htmlToText } from './mime.parser.js';
+
+/**
+ * Plain-text alternatives for HTML draft bodies.
+ */
+
+/** Private-use characters survive the HTML conversion untouched. */
+function placeholderFor(index: number): string {
+  return `\uE000${index}\uE000`;
+}
+
+/** A known HTML fragment with a hand-written plain-text equivalent. */
+export type TextEquivalent = {
+  html: string;
+  text: string;
+};
+
+/**
+ * Derives the text/plain part for an HTML body. Links are kept as numbered footnotes.
+ *
+ * Fragments listed in `equivalents` (e.g. the NASA APOD Space Edition block) that
+ * appear verbatim in the HTML are replaced by their plain-text version instead of
+ * being converted, since that version was written to read well as text.
+ */
+export function buildTextAlternative(html: string, equivalents: TextEquivalent[] = []): string {
+  const substitutions: string[] = [];
+  let working = html;
+
+  for (const equivalent of equivalents) {
+    if (!equivalent.html || !working.includes(equivalent.html)) continue;
+    const placeholder = placeholderFor(substitutions.length);
+    working = working.split(equivalent.html).join(`<p>${placeholder}</p>`);
+    substitutions.push(equivalent.text);
+  }
+
+  let text = htmlToText(working, { linkFootnotes: true });
+  substitutions.forEach((replacement, i) => {
+    text = text.split(placeholderFor(i)).join(replacement.trim());
+  });
+
+  return text.replace(/\n{3,}/g, '\n\n').trim();
+}
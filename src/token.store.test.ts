@@ -0,0 +1,138 @@
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  FileTokenStore,
+  getTokenEncryption,
+  getTokenStoreFile,
+  parseEncryptionKey,
+  StoredToken,
+} from './token.store';
+
+const KEY = Buffer.alloc(32, 7);
+
+function token(refreshToken: string): StoredToken {
+  return {
+    refreshToken,
+    scopes: ['https://www.googleapis.com/auth/gmail.readonly'],
+    emailAddress: 'me@example.com',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+describe('FileTokenStore', () => {
+  let root: string;
+  let file: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'token-store-'));
+    file = join(root, 'nested', 'tokens.json');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('stores tokens per account in an owner-only file', async () => {
+    const store = new FileTokenStore(file);
+
+    await store.set('default', token('one'));
+    await store.set('work', token('two'));
+
+    await expect(store.get('work')).resolves.toEqual(token('two'));
+    await expect(store.load()).resolves.toEqual({ default: token('one'), work: token('two') });
+    expect(statSync(file).mode & 0o777).toBe(0o600);
+  });
+
+  it('returns nothing when the file does not exist', async () => {
+    await expect(new FileTokenStore(file).load()).resolves.toEqual({});
+  });
+
+  it('deletes tokens, and the file with the last one', async () => {
+    const store = new FileTokenStore(file);
+    await store.set('default', token('one'));
+    await store.set('work', token('two'));
+
+    await expect(store.delete('work')).resolves.toBe(true);
+    await expect(store.delete('work')).resolves.toBe(false);
+    await expect(store.load()).resolves.toEqual({ default: token('one') });
+
+    await store.delete('default');
+    expect(() => statSync(file)).toThrow();
+  });
+
+  it('tightens the permissions of an existing file', async () => {
+    writeFileSync(join(root, 'tokens.json'), '{"version":1,"accounts":{}}', { mode: 0o644 });
+    const store = new FileTokenStore(join(root, 'tokens.json'));
+
+    await store.set('default', token('one'));
+
+    expect(statSync(join(root, 'tokens.json')).mode & 0o777).toBe(0o600);
+  });
+
+  it.each([
+    ['a key', { key: KEY }],
+    ['a passphrase', { passphrase: 'correct horse battery staple' }],
+  ])('encrypts the file with %s', async (_label, encryption) => {
+    const store = new FileTokenStore(file, encryption);
+
+    await store.set('default', token('secret-refresh-token'));
+
+    expect(readFileSync(file, 'utf-8')).not.toContain('secret-refresh-token');
+    await expect(new FileTokenStore(file, encryption).get('default')).resolves.toEqual(
+      token('secret-refresh-token')
+    );
+  });
+
+  it('explains what is missing when an encrypted file cannot be read', async () => {
+    await new FileTokenStore(file, { passphrase: 'right' }).set('default', token('one'));
+
+    await expect(new FileTokenStore(file).load()).rejects.toThrow(
+      /is encrypted. Set GMAIL_TOKEN_STORE_PASSPHRASE/
+    );
+    await expect(new FileTokenStore(file, { passphrase: 'wrong' }).load()).rejects.toThrow(
+      /Could not decrypt token store/
+    );
+    await expect(new FileTokenStore(file, { key: KEY }).load()).rejects.toThrow(
+      /encrypted with a passphrase/
+    );
+  });
+
+  it('encrypts a plain file once encryption is configured', async () => {
+    await new FileTokenStore(file).set('default', token('one'));
+
+    await new FileTokenStore(file, { key: KEY }).set('work', token('two'));
+
+    expect(JSON.parse(readFileSync(file, 'utf-8')).encryption.algorithm).toBe('aes-256-gcm');
+    await expect(new FileTokenStore(file, { key: KEY }).load()).resolves.toEqual({
+      default: token('one'),
+      work: token('two'),
+    });
+  });
+});
+
+describe('token store settings', () => {
+  it('reads the file location from GMAIL_TOKEN_STORE_FILE', () => {
+    expect(getTokenStoreFile({})).toBe(join(process.cwd(), '.gmail-tokens.json'));
+    expect(getTokenStoreFile({ GMAIL_TOKEN_STORE_FILE: '/etc/mcp/tokens.json' })).toBe(
+      '/etc/mcp/tokens.json'
+    );
+  });
+
+  it('accepts hex and base64 keys of 32 bytes', () => {
+    expect(parseEncryptionKey(KEY.toString('hex'))).toEqual(KEY);
+    expect(parseEncryptionKey(KEY.toString('base64'))).toEqual(KEY);
+    expect(() => parseEncryptionKey('too-short')).toThrow(/must be 32 bytes/);
+  });
+
+  it('prefers a key over a passphrase', () => {
+    expect(getTokenEncryption({})).toBeUndefined();
+    expect(getTokenEncryption({ GMAIL_TOKEN_STORE_PASSPHRASE: 'p' })).toEqual({ passphrase: 'p' });
+    expect(
+      getTokenEncryption({
+        GMAIL_TOKEN_STORE_KEY: KEY.toString('hex'),
+        GMAIL_TOKEN_STORE_PASSPHRASE: 'p',
+      })
+    ).toEqual({ key: KEY });
+  });
+});
@@ -0,0 +1,247 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt as scryptCallback } from 'crypto';
+import { chmod, mkdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { promisify } from 'util';
+
+/**
+ * Stores the Gmail refresh tokens written by `npm run auth`, one entry per account.
+ *
+ * The file is only readable by its owner (0600). When GMAIL_TOKEN_STORE_KEY (a 32-byte
+ * key, hex or base64) or GMAIL_TOKEN_STORE_PASSPHRASE is set, its contents are also
+ * encrypted with AES-256-GCM; a passphrase is stretched with scrypt and a random salt.
+ */
+
+export type StoredToken = {
+  refreshToken: string;
+  /** Scopes granted when the token was issued. */
+  scopes?: string[];
+  /** The mailbox the token belongs to, when it could be looked up. */
+  emailAddress?: string;
+  /** ISO timestamp of when the token was stored. */
+  updatedAt: string;
+};
+
+export type TokenStore = {
+  /** All stored tokens, keyed by account name. */
+  load(): Promise<Record<string, StoredToken>>;
+  get(account: string): Promise<StoredToken | undefined>;
+  set(account: string, token: StoredToken): Promise<void>;
+  /** Returns false when there was no token for the account. */
+  delete(account: string): Promise<boolean>;
+};
+
+export type TokenEncryption = { key: Buffer } | { passphrase: string };
+
+type Env = Record<string, string | undefined>;
+
+type PlainFile = {
+  version: 1;
+  accounts: Record<string, StoredToken>;
+};
+
+type EncryptedFile = {
+  version: 1;
+  encryption: {
+    algorithm: 'aes-256-gcm';
+    kdf: 'none' | 'scrypt';
+    salt?: string;
+    iv: string;
+    tag: string;
+  };
+  data: string;
+};
+
+const DEFAULT_TOKEN_STORE_FILE = '.gmail-tokens.json';
+const KEY_BYTES = 32;
+
+const scrypt = promisify(scryptCallback) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+/**
+ * Reads the store location from GMAIL_TOKEN_STORE_FILE. Relative paths (and the default,
+ * .gmail-tokens.json) resolve against the working directory, like .env.
+ */
+export function getTokenStoreFile(env: Env = process.env): string {
+  return resolve(env.GMAIL_TOKEN_STORE_FILE?.trim() || DEFAULT_TOKEN_STORE_FILE);
+}
+
+/**
+ * Parses GMAIL_TOKEN_STORE_KEY: 64 hex characters or base64, either way 32 bytes.
+ *
+ * @throws If the key doesn't decode to 32 bytes
+ */
+export function parseEncryptionKey(raw: string): Buffer {
+  const value = raw.trim();
+  const key = /^[0-9a-f]{64}$/i.test(value)
+    ? Buffer.from(value, 'hex')
+    : Buffer.from(value, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(
+      'GMAIL_TOKEN_STORE_KEY must be 32 bytes, as 64 hex characters or base64 (e.g. from "openssl rand -hex 32")'
+    );
+  }
+  return key;
+}
+
+/**
+ * Reads the encryption settings. A key takes precedence over a passphrase.
+ *
+ * @throws If GMAIL_TOKEN_STORE_KEY is set but invalid
+ */
+export function getTokenEncryption(env: Env = process.env): TokenEncryption | undefined {
+  const key = env.GMAIL_TOKEN_STORE_KEY?.trim();
+  if (key) return { key: parseEncryptionKey(key) };
+
+  const passphrase = env.GMAIL_TOKEN_STORE_PASSPHRASE;
+  return passphrase ? { passphrase } : undefined;
+}
+
+export function createTokenStoreFromEnv(env: Env = process.env): FileTokenStore {
+  return new FileTokenStore(getTokenStoreFile(env), getTokenEncryption(env));
+}
+
+function isEncryptedFile(value: unknown): value is EncryptedFile {
+  return typeof (value as EncryptedFile | null)?.encryption === 'object';
+}
+
+export class FileTokenStore implements TokenStore {
+  readonly file: string;
+  private readonly encryption?: TokenEncryption;
+
+  constructor(file: string, encryption?: TokenEncryption) {
+    this.file = file;
+    this.encryption = encryption;
+  }
+
+  get encrypted(): boolean {
+    return this.encryption !== undefined;
+  }
+
+  /**
+   * @throws If the file can't be parsed, is encrypted and no key or passphrase is set, or
+   *   the key or passphrase is wrong
+   */
+  async load(): Promise<Record<string, StoredToken>> {
+    let content: string;
+    try {
+      content = await readFile(this.file, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new Error(`Token store ${this.file} is not valid JSON`);
+    }
+
+    const file = isEncryptedFile(parsed) ? await this.decrypt(parsed) : (parsed as PlainFile);
+    return file.accounts ?? {};
+  }
+
+  async get(account: string): Promise<StoredToken | undefined> {
+    return (await this.load())[account];
+  }
+
+  async set(account: string, token: StoredToken): Promise<void> {
+    const accounts = await this.load();
+    accounts[account] = token;
+    await this.save(accounts);
+  }
+
+  async delete(account: string): Promise<boolean> {
+    const accounts = await this.load();
+    if (!(account in accounts)) return false;
+
+    delete accounts[account];
+    if (Object.keys(accounts).length === 0) {
+      await unlink(this.file);
+    } else {
+      await this.save(accounts);
+    }
+    return true;
+  }
+
+  /**
+   * Writes to a temporary file and renames it, like the sync state, so a crash mid-write
+   * can't lose every stored token.
+   */
+  private async save(accounts: Record<string, StoredToken>): Promise<void> {
+    const plain: PlainFile = { version: 1, accounts };
+    const file = this.encryption ? await this.encrypt(plain) : plain;
+
+    await mkdir(dirname(this.file), { recursive: true });
+    const tmpFile = `${this.file}.${process.pid}.tmp`;
+    await writeFile(tmpFile, `${JSON.stringify(file, null, 2)}\n`, { mode: 0o600 });
+    await rename(tmpFile, this.file);
+    // The mode only applies to new files; tighten one created by hand
+    await chmod(this.file, 0o600);
+  }
+
+  private async deriveKey(salt?: Buffer): Promise<{ key: Buffer; salt?: Buffer }> {
+    if (!this.encryption) throw new Error('Token store encryption is not configured');
+    if ('key' in this.encryption) return { key: this.encryption.key };
+
+    const useSalt = salt ?? randomBytes(16);
+    return { key: await scrypt(this.encryption.passphrase, useSalt, KEY_BYTES), salt: useSalt };
+  }
+
+  private async encrypt(plain: PlainFile): Promise<EncryptedFile> {
+    const { key, salt } = await this.deriveKey();
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(plain), 'utf8'), cipher.final()]);
+
+    return {
+      version: 1,
+      encryption: {
+        algorithm: 'aes-256-gcm',
+        kdf: salt ? 'scrypt' : 'none',
+        ...(salt && { salt: salt.toString('base64') }),
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+      },
+      data: data.toString('base64'),
+    };
+  }
+
+  private async decrypt(file: EncryptedFile): Promise<PlainFile> {
+    const { encryption } = file;
+    if (!this.encryption) {
+      const setting =
+        encryption.kdf === 'scrypt' ? 'GMAIL_TOKEN_STORE_PASSPHRASE' : 'GMAIL_TOKEN_STORE_KEY';
+      throw new Error(`Token store ${this.file} is encrypted. Set ${setting} to read it.`);
+    }
+    if (encryption.kdf === 'scrypt' && 'key' in this.encryption) {
+      throw new Error(
+        `Token store ${this.file} is encrypted with a passphrase. Set GMAIL_TOKEN_STORE_PASSPHRASE instead of GMAIL_TOKEN_STORE_KEY.`
+      );
+    }
+    if (encryption.kdf === 'none' && 'passphrase' in this.encryption) {
+      throw new Error(
+        `Token store ${this.file} is encrypted with a key. Set GMAIL_TOKEN_STORE_KEY instead of GMAIL_TOKEN_STORE_PASSPHRASE.`
+      );
+    }
+
+    const salt = encryption.salt ? Buffer.from(encryption.salt, 'base64') : undefined;
+    const { key } = await this.deriveKey(salt);
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(encryption.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(encryption.tag, 'base64'));
+      const plain = Buffer.concat([
+        decipher.update(Buffer.from(file.data, 'base64')),
+        decipher.final(),
+      ]);
+      return JSON.parse(plain.toString('utf8')) as PlainFile;
+    } catch {
+      throw new Error(
+        `Could not decrypt token store ${this.file}. Check GMAIL_TOKEN_STORE_KEY or GMAIL_TOKEN_STORE_PASSPHRASE.`
+      );
+    }
+  }
+}
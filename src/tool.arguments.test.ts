@@ -0,0 +1,105 @@
+import { JsonSchema, validateArguments } from './tool.arguments';
+
+describe('validateArguments', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      emailId: { type: 'string', pattern: '^[A-Za-z0-9_-]+$' },
+      replyBody: { type: 'string', minLength: 1 },
+      format: { type: 'string', enum: ['plain', 'html'] },
+      maxDaysBack: { type: 'integer', minimum: 0, maximum: 30 },
+      attachments: {
+        type: 'array',
+        maxItems: 2,
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          properties: { path: { type: 'string' }, filename: { type: 'string', minLength: 1 } },
+        },
+      },
+      emailIds: { type: 'array', minItems: 1, items: { type: 'string' } },
+    },
+    required: ['emailId', 'replyBody'],
+  };
+
+  it('accepts valid arguments', () => {
+    expect(
+      validateArguments(schema, {
+        emailId: 'msg-1_a',
+        replyBody: 'Thanks!',
+        format: 'html',
+        maxDaysBack: 5,
+        attachments: [{ path: '/tmp/a.pdf' }, { filename: 'b.txt' }],
+        emailIds: ['msg1'],
+      })
+    ).toEqual([]);
+  });
+
+  it('does not coerce values', () => {
+    expect(
+      validateArguments(schema, {
+        emailId: 'msg1',
+        replyBody: 'Hi',
+        format: 'HTML ',
+        maxDaysBack: '5',
+      })
+    ).toEqual([
+      { field: 'format', message: 'must be one of "plain", "html", got "HTML "' },
+      { field: 'maxDaysBack', message: 'must be a whole number, got string' },
+    ]);
+  });
+
+  it('reports every failing field, including nested ones', () => {
+    expect(
+      validateArguments(schema, {
+        emailId: '../etc/passwd',
+        replyBody: '',
+        maxDaysBack: 31,
+        attachments: [{ path: 1 }, { filename: '', size: 3 }, {}],
+        emailIds: [],
+        extra: true,
+      })
+    ).toEqual([
+      { field: 'emailId', message: 'must match ^[A-Za-z0-9_-]+$' },
+      { field: 'replyBody', message: 'must not be empty' },
+      { field: 'maxDaysBack', message: 'must be at most 30' },
+      { field: 'attachments', message: 'must have at most 2 items' },
+      { field: 'attachments[0].path', message: 'must be a string, got number' },
+      { field: 'attachments[1].filename', message: 'must not be empty' },
+      {
+        field: 'attachments[1].size',
+        message: 'is not a known field (expected one of path, filename)',
+      },
+      { field: 'emailIds', message: 'must have at least 1 item' },
+      {
+        field: 'extra',
+        message:
+          'is not a known field (expected one of emailId, replyBody, format, maxDaysBack, attachments, emailIds)',
+      },
+    ]);
+  });
+
+  it('reports missing required fields and treats missing arguments as empty', () => {
+    expect(validateArguments(schema, undefined)).toEqual([
+      { field: 'emailId', message: 'is required' },
+      { field: 'replyBody', message: 'is required' },
+    ]);
+    expect(validateArguments({ type: 'object', properties: {} }, undefined)).toEqual([]);
+  });
+
+  it('rejects null and non-finite numbers', () => {
+    expect(
+      validateArguments(schema, { emailId: null, replyBody: 'Hi', maxDaysBack: Infinity })
+    ).toEqual([
+      { field: 'emailId', message: 'must be a string, got null' },
+      { field: 'maxDaysBack', message: 'must be a whole number, got number' },
+    ]);
+  });
+
+  it('rejects arguments for tools that take none', () => {
+    expect(
+      validateArguments({ type: 'object', properties: {}, additionalProperties: false }, { a: 1 })
+    ).toEqual([{ field: 'a', message: 'is not a known field (none are accepted)' }]);
+  });
+});
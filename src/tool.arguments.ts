@@ -0,0 +1,156 @@
+/**
+ * Validates tool call arguments against the tool's inputSchema before the handler runs.
+ *
+ * Supports the JSON Schema keywords the tool schemas use: type, enum, pattern,
+ * minLength/maxLength, minimum/maximum, items, minItems/maxItems, properties,
+ * required and additionalProperties. Other keywords (description, default…) are
+ * ignored. Values are never coerced: "5" is not a number and "HTML " is not "html".
+ */
+
+export type JsonSchema = {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  enum?: readonly unknown[];
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean;
+  description?: string;
+};
+
+/** One failing field, e.g. { field: 'attachments[0].filename', message: 'must be a string' }. */
+export type ArgumentError = {
+  field: string;
+  message: string;
+};
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function validateValue(
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  errors: ArgumentError[]
+): void {
+  const field = path || '(arguments)';
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    const expected = schema.type === 'integer' ? 'a whole number' : `a ${schema.type}`;
+    errors.push({ field, message: `must be ${expected}, got ${describeType(value)}` });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    const allowed = schema.enum.map((v) => JSON.stringify(v)).join(', ');
+    errors.push({ field, message: `must be one of ${allowed}, got ${JSON.stringify(value)}` });
+    return;
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      const message =
+        schema.minLength === 1
+          ? 'must not be empty'
+          : `must be at least ${schema.minLength} characters`;
+      errors.push({ field, message });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ field, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ field, message: `must match ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ field, message: `must be at least ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ field, message: `must be at most ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({
+        field,
+        message: `must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`,
+      });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ field, message: `must have at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      const items = schema.items;
+      value.forEach((item, i) => validateValue(items, item, joinPath(path, i), errors));
+    }
+  }
+
+  if (matchesType(value, 'object')) {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+
+    for (const name of schema.required ?? []) {
+      if (object[name] === undefined) {
+        errors.push({ field: joinPath(path, name), message: 'is required' });
+      }
+    }
+
+    for (const [name, propertyValue] of Object.entries(object)) {
+      const propertySchema = properties[name];
+      if (propertySchema) {
+        if (propertyValue === undefined) continue;
+        validateValue(propertySchema, propertyValue, joinPath(path, name), errors);
+      } else if (schema.additionalProperties === false) {
+        const known = Object.keys(properties);
+        errors.push({
+          field: joinPath(path, name),
+          message: known.length
+            ? `is not a known field (expected one of ${known.join(', ')})`
+            : 'is not a known field (none are accepted)',
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Checks tool arguments against a schema and returns every failing field. Missing
+ * arguments (`undefined`) are treated as an empty object.
+ */
+export function validateArguments(schema: JsonSchema, args: unknown): ArgumentError[] {
+  const errors: ArgumentError[] = [];
+  validateValue(schema, args ?? {}, '', errors);
+  return errors;
+}